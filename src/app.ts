@@ -9,13 +9,26 @@ import commentsRouter from "./routes/comments";
 import likesRouter from "./routes/likes";
 import notificationsRouter from "./routes/notifications";
 import usersRouter from "./routes/users";
+import internalRouter from "./routes/internal";
+import tagsRouter from "./routes/tags";
+import seriesRouter from "./routes/series";
+import mediaRouter from "./routes/media";
+import feedsRouter from "./routes/feeds";
+import sitemapRouter from "./routes/sitemap";
+import { storageConfig } from "./utils/config";
+import { getStorage } from "./utils/storage";
 
 const app = express();
 const port: number = parseInt(process.env.PORT || "4001", 10);
 
+// req.ip comes from X-Forwarded-For, trusting only the proxies in front of the API.
+// TRUST_PROXY is the number of proxy hops (Vercel adds one); 0 uses the socket address.
+app.set("trust proxy", parseInt(process.env.TRUST_PROXY || "1", 10));
+
 app.use(cors({
   origin: ['https://leo-shin-blog-app.vercel.app', 'http://localhost:5173', 'http://localhost:3000'],
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  exposedHeaders: ['ETag'], // Post version for If-Match on PUT /posts/:postId
   credentials: true
 }));
 app.use(express.json({ limit: '50mb' }));
@@ -26,7 +39,19 @@ app.get("/", (req, res) => {
   res.json({ message: "LeoShin Blog API is running!", status: "success" });
 });
 
+// Uploaded files when STORAGE_DRIVER=local (see utils/storage.ts)
+if (storageConfig.driver === "local") {
+  getStorage(); // Fails at startup when API_URL is missing instead of on the first upload
+  app.use(storageConfig.localPublicPath, express.static(storageConfig.localDir, {
+    dotfiles: "deny",
+    index: false,
+    setHeaders: (res) => res.setHeader("X-Content-Type-Options", "nosniff"),
+  }));
+}
+
 // Routes
+app.use("/", feedsRouter); // /feed.xml, /atom.xml, /feed.json, /categories/:slug/feed.xml
+app.use("/", sitemapRouter); // /sitemap.xml, /sitemaps/*, /robots.txt
 app.use("/posts", postsRouter);
 app.use("/profiles", profilesRouter);
 app.use("/auth", authRouter);
@@ -35,6 +60,10 @@ app.use("/comments", commentsRouter);
 app.use("/likes", likesRouter);
 app.use("/notifications", notificationsRouter);
 app.use("/users", usersRouter);
+app.use("/tags", tagsRouter);
+app.use("/series", seriesRouter);
+app.use("/media", mediaRouter);
+app.use("/internal", internalRouter);
 
 // Error handling middleware (must be last)
 app.use(notFoundHandler);
@@ -0,0 +1,23 @@
+-- Slug ที่ไม่ซ้ำกันสำหรับ blog_posts และตารางเก็บ slug เก่าเพื่อ redirect
+
+-- แก้ slug ที่ว่างหรือซ้ำกันก่อนสร้าง unique index
+UPDATE blog_posts SET slug = 'post-' || id WHERE slug IS NULL OR slug = '';
+
+UPDATE blog_posts p
+SET slug = p.slug || '-' || p.id
+WHERE EXISTS (
+    SELECT 1 FROM blog_posts other
+    WHERE other.slug = p.slug AND other.id < p.id
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS blog_posts_slug_key ON blog_posts (slug);
+
+-- slug เก่าของ post ที่ถูกเปลี่ยนชื่อ ใช้ redirect ไปยัง slug ปัจจุบัน
+CREATE TABLE IF NOT EXISTS post_slug_redirects (
+    id BIGSERIAL PRIMARY KEY,
+    slug TEXT NOT NULL UNIQUE,
+    post_id BIGINT NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS post_slug_redirects_post_id_idx ON post_slug_redirects (post_id);
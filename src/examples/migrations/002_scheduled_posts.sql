@@ -0,0 +1,7 @@
+-- สถานะ "Scheduled" สำหรับ post ที่ตั้งเวลาเผยแพร่ไว้ล่วงหน้า
+INSERT INTO post_status (id, name) VALUES (3, 'Scheduled')
+ON CONFLICT (id) DO NOTHING;
+
+-- ช่วยให้ scheduler หา post ที่ถึงเวลาเผยแพร่ได้เร็ว
+CREATE INDEX IF NOT EXISTS blog_posts_scheduled_idx ON blog_posts (published_at)
+    WHERE status_id = 3;
@@ -0,0 +1,24 @@
+-- ประวัติการแก้ไข post ทุกครั้งที่สร้างหรืออัปเดต
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id BIGSERIAL PRIMARY KEY,
+    post_id BIGINT NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    title TEXT,
+    slug TEXT,
+    image TEXT,
+    category_id BIGINT,
+    description TEXT,
+    content TEXT,
+    status_id INTEGER,
+    published_at TIMESTAMPTZ,
+    edited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (post_id, revision_number)
+);
+
+-- เก็บ post ที่มีอยู่แล้วเป็น revision แรก
+INSERT INTO post_revisions (post_id, revision_number, title, slug, image, category_id, description, content, status_id, published_at, edited_by, created_at)
+SELECT id, 1, title, slug, image, category_id, description, content, status_id, published_at,
+       COALESCE(last_edited_by, author_id), COALESCE(updated_at, created_at)
+FROM blog_posts
+ON CONFLICT (post_id, revision_number) DO NOTHING;
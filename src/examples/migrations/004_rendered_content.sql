@@ -0,0 +1,6 @@
+-- HTML ที่ render จาก Markdown แล้ว (sanitized) เก็บไว้ตอนบันทึก post
+ALTER TABLE blog_posts
+    ADD COLUMN IF NOT EXISTS content_html TEXT,
+    ADD COLUMN IF NOT EXISTS toc JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS word_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS reading_time INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,67 @@
+-- Full-text search สำหรับ blog_posts
+-- ใช้ config 'simple' เพราะ Postgres ไม่มี dictionary ภาษาไทย (ตัดคำตามช่องว่างเท่านั้น)
+-- น้ำหนัก: title (A) > description (B) > content (C)
+ALTER TABLE blog_posts
+    ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(content, '')), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS blog_posts_search_vector_idx ON blog_posts USING GIN (search_vector);
+
+-- escape HTML ก่อนใส่ <mark> เพื่อให้ snippet ปลอดภัยต่อ XSS
+CREATE OR REPLACE FUNCTION html_escape(input TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT replace(replace(replace(replace(coalesce(input, ''), '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;');
+$$;
+
+-- ค้นหา post เรียงตาม relevance พร้อม highlight
+-- search_query ถูกแปลงด้วย websearch_to_tsquery จึงรับ input จากผู้ใช้ได้โดยตรงโดยไม่ error
+-- SECURITY INVOKER เพื่อให้ RLS ของผู้เรียกยังทำงาน
+CREATE OR REPLACE FUNCTION search_posts(
+    search_query TEXT,
+    filter_status_id INTEGER DEFAULT NULL,
+    filter_category_ids BIGINT[] DEFAULT NULL,
+    result_limit INTEGER DEFAULT 10,
+    result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id BIGINT,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('simple', search_query) AS q
+    ),
+    matches AS (
+        SELECT p.id, p.title, p.description, p.content,
+               ts_rank_cd(p.search_vector, query.q) AS rank,
+               query.q
+        FROM blog_posts p, query
+        WHERE p.search_vector @@ query.q
+          AND (filter_status_id IS NULL OR p.status_id = filter_status_id)
+          AND (filter_category_ids IS NULL OR p.category_id = ANY (filter_category_ids))
+    )
+    SELECT m.id,
+           m.rank,
+           ts_headline('simple', html_escape(m.title), m.q,
+               'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+           ts_headline('simple', html_escape(coalesce(nullif(m.content, ''), m.description)), m.q,
+               'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'),
+           count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.id DESC
+    LIMIT greatest(result_limit, 1)
+    OFFSET greatest(result_offset, 0);
+$$;
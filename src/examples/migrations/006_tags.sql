@@ -0,0 +1,73 @@
+-- Tags แบบ many-to-many (ใช้ควบคู่กับ categories)
+CREATE TABLE IF NOT EXISTS tags (
+    id BIGSERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    slug TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS post_tags (
+    post_id BIGINT NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+    tag_id BIGINT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    PRIMARY KEY (post_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS post_tags_tag_id_idx ON post_tags (tag_id);
+
+-- จำนวน post ที่เผยแพร่แล้วต่อ tag (ใช้กับ tag cloud)
+CREATE OR REPLACE VIEW tag_post_counts AS
+SELECT t.id, t.name, t.slug, count(p.id) AS post_count
+FROM tags t
+LEFT JOIN post_tags pt ON pt.tag_id = t.id
+LEFT JOIN blog_posts p ON p.id = pt.post_id AND p.status_id = 1
+GROUP BY t.id, t.name, t.slug;
+
+-- เพิ่ม filter ตาม tag ให้ search_posts
+DROP FUNCTION IF EXISTS search_posts(TEXT, INTEGER, BIGINT[], INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_posts(
+    search_query TEXT,
+    filter_status_id INTEGER DEFAULT NULL,
+    filter_category_ids BIGINT[] DEFAULT NULL,
+    result_limit INTEGER DEFAULT 10,
+    result_offset INTEGER DEFAULT 0,
+    filter_tag_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+    id BIGINT,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('simple', search_query) AS q
+    ),
+    matches AS (
+        SELECT p.id, p.title, p.description, p.content,
+               ts_rank_cd(p.search_vector, query.q) AS rank,
+               query.q
+        FROM blog_posts p, query
+        WHERE p.search_vector @@ query.q
+          AND (filter_status_id IS NULL OR p.status_id = filter_status_id)
+          AND (filter_category_ids IS NULL OR p.category_id = ANY (filter_category_ids))
+          AND (filter_tag_id IS NULL OR EXISTS (
+              SELECT 1 FROM post_tags pt WHERE pt.post_id = p.id AND pt.tag_id = filter_tag_id
+          ))
+    )
+    SELECT m.id,
+           m.rank,
+           ts_headline('simple', html_escape(m.title), m.q,
+               'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+           ts_headline('simple', html_escape(coalesce(nullif(m.content, ''), m.description)), m.q,
+               'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'),
+           count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.id DESC
+    LIMIT greatest(result_limit, 1)
+    OFFSET greatest(result_offset, 0);
+$$;
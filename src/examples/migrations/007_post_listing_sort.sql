@@ -0,0 +1,32 @@
+-- จำนวน comment ต่อ post สำหรับ sort=most_commented (อัปเดตด้วย trigger)
+ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS comments_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE blog_posts p
+SET comments_count = (SELECT count(*) FROM comments c WHERE c.post_id = p.id);
+
+CREATE OR REPLACE FUNCTION update_post_comments_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE blog_posts SET comments_count = comments_count + 1 WHERE id = NEW.post_id;
+    ELSIF TG_OP = 'DELETE' THEN
+        UPDATE blog_posts SET comments_count = greatest(comments_count - 1, 0) WHERE id = OLD.post_id;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_count_trigger ON comments;
+CREATE TRIGGER comments_count_trigger
+    AFTER INSERT OR DELETE ON comments
+    FOR EACH ROW EXECUTE FUNCTION update_post_comments_count();
+
+-- index สำหรับ filter ตาม category และ sort แต่ละแบบของ GET /posts
+CREATE INDEX IF NOT EXISTS blog_posts_status_category_idx ON blog_posts (status_id, category_id);
+CREATE INDEX IF NOT EXISTS blog_posts_published_at_idx ON blog_posts (published_at DESC, id DESC) WHERE status_id = 1;
+CREATE INDEX IF NOT EXISTS blog_posts_likes_idx ON blog_posts (likes DESC, id DESC) WHERE status_id = 1;
+CREATE INDEX IF NOT EXISTS blog_posts_views_idx ON blog_posts (views DESC, id DESC) WHERE status_id = 1;
+CREATE INDEX IF NOT EXISTS blog_posts_comments_count_idx ON blog_posts (comments_count DESC, id DESC) WHERE status_id = 1;
@@ -0,0 +1,80 @@
+-- นับยอดวิวแบบไม่นับซ้ำต่อผู้เข้าชมภายในช่วงเวลาที่กำหนด พร้อมสถิติรายวัน
+
+-- ครั้งล่าสุดที่นับวิวของผู้เข้าชมแต่ละคน (viewer_key = user:<uuid> หรือ anon:<sha256>)
+CREATE TABLE IF NOT EXISTS post_view_visitors (
+    post_id BIGINT NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+    viewer_key TEXT NOT NULL,
+    last_counted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (post_id, viewer_key)
+);
+
+CREATE INDEX IF NOT EXISTS post_view_visitors_last_counted_at_idx ON post_view_visitors (last_counted_at);
+
+-- ยอดวิวรายวันต่อ post สำหรับทำกราฟ
+CREATE TABLE IF NOT EXISTS post_view_daily (
+    post_id BIGINT NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+    day DATE NOT NULL,
+    views INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (post_id, day)
+);
+
+-- บันทึกวิวแบบ atomic: นับเฉพาะเมื่อผู้เข้าชมคนนี้ไม่ได้ถูกนับภายใน p_window_minutes
+-- คืนค่าแถวว่างถ้า post ไม่มีอยู่หรือยังไม่เผยแพร่
+CREATE OR REPLACE FUNCTION record_post_view(
+    p_post_id BIGINT,
+    p_viewer_key TEXT,
+    p_window_minutes INTEGER DEFAULT 30
+)
+RETURNS TABLE (counted BOOLEAN, views BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_counted BOOLEAN;
+    v_views BIGINT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM blog_posts p WHERE p.id = p_post_id AND p.status_id = 1) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO post_view_visitors AS v (post_id, viewer_key, last_counted_at)
+    VALUES (p_post_id, p_viewer_key, now())
+    ON CONFLICT (post_id, viewer_key) DO UPDATE
+        SET last_counted_at = now()
+        WHERE v.last_counted_at < now() - make_interval(mins => p_window_minutes)
+    RETURNING true INTO v_counted;
+
+    IF coalesce(v_counted, false) THEN
+        UPDATE blog_posts p SET views = coalesce(p.views, 0) + 1
+        WHERE p.id = p_post_id
+        RETURNING p.views INTO v_views;
+
+        INSERT INTO post_view_daily AS d (post_id, day, views)
+        VALUES (p_post_id, current_date, 1)
+        ON CONFLICT (post_id, day) DO UPDATE SET views = d.views + 1;
+    ELSE
+        SELECT p.views INTO v_views FROM blog_posts p WHERE p.id = p_post_id;
+    END IF;
+
+    RETURN QUERY SELECT coalesce(v_counted, false), coalesce(v_views, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_post_view(BIGINT, TEXT, INTEGER) TO anon, authenticated;
+
+-- ลบข้อมูลผู้เข้าชมที่พ้นช่วงเวลาไม่นับซ้ำแล้ว (เรียกจาก cron)
+CREATE OR REPLACE FUNCTION prune_post_view_visitors(p_window_minutes INTEGER DEFAULT 30)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH deleted AS (
+        DELETE FROM post_view_visitors
+        WHERE last_counted_at < now() - make_interval(mins => p_window_minutes)
+        RETURNING 1
+    )
+    SELECT count(*)::INTEGER FROM deleted;
+$$;
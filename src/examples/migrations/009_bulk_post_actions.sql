@@ -0,0 +1,76 @@
+-- Bulk actions สำหรับหน้า admin post list
+-- ทำงานใน transaction เดียว: ถ้ามี post ใดหาไม่เจอ จะไม่เปลี่ยนแปลง post ใดเลย
+-- เรียกผ่าน service role เท่านั้น (เหมือน DELETE /posts/:postId ที่ต้องลบ comments ของผู้ใช้อื่นด้วย)
+CREATE OR REPLACE FUNCTION bulk_post_action(
+    p_post_ids BIGINT[],
+    p_action TEXT,
+    p_editor_id UUID,
+    p_category_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (post_id BIGINT, success BOOLEAN, error TEXT)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_missing BIGINT[];
+BEGIN
+    IF p_action NOT IN ('publish', 'unpublish', 'move', 'delete') THEN
+        RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+    END IF;
+
+    IF p_action = 'move' AND NOT EXISTS (SELECT 1 FROM categories c WHERE c.id = p_category_id) THEN
+        RAISE EXCEPTION 'Category % does not exist', p_category_id;
+    END IF;
+
+    SELECT array_agg(i) INTO v_missing
+    FROM unnest(p_post_ids) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM blog_posts p WHERE p.id = i);
+
+    IF v_missing IS NOT NULL THEN
+        RETURN QUERY
+        SELECT i, false,
+               CASE WHEN i = ANY (v_missing) THEN 'Post not found' ELSE 'Not applied: batch rolled back' END
+        FROM unnest(p_post_ids) AS i;
+        RETURN;
+    END IF;
+
+    IF p_action = 'publish' THEN
+        -- post ที่เผยแพร่อยู่แล้วคงวันที่เผยแพร่เดิมไว้
+        UPDATE blog_posts p
+        SET status_id = 1,
+            published_at = CASE WHEN p.status_id = 1 AND p.published_at IS NOT NULL THEN p.published_at ELSE now() END,
+            last_edited_by = p_editor_id,
+            updated_at = now()
+        WHERE p.id = ANY (p_post_ids);
+    ELSIF p_action = 'unpublish' THEN
+        UPDATE blog_posts p
+        SET status_id = 2, published_at = NULL, last_edited_by = p_editor_id, updated_at = now()
+        WHERE p.id = ANY (p_post_ids);
+    ELSIF p_action = 'move' THEN
+        UPDATE blog_posts p
+        SET category_id = p_category_id, last_edited_by = p_editor_id, updated_at = now()
+        WHERE p.id = ANY (p_post_ids);
+    ELSIF p_action = 'delete' THEN
+        DELETE FROM comments c WHERE c.post_id = ANY (p_post_ids);
+        DELETE FROM post_likes l WHERE l.post_id = ANY (p_post_ids);
+        DELETE FROM blog_posts p WHERE p.id = ANY (p_post_ids);
+    END IF;
+
+    -- เก็บ revision ของ post ที่ถูกแก้ไข
+    IF p_action <> 'delete' THEN
+        INSERT INTO post_revisions (post_id, revision_number, title, slug, image, category_id, description, content, status_id, published_at, edited_by, created_at)
+        SELECT p.id,
+               coalesce((SELECT max(r.revision_number) FROM post_revisions r WHERE r.post_id = p.id), 0) + 1,
+               p.title, p.slug, p.image, p.category_id, p.description, p.content, p.status_id, p.published_at,
+               p_editor_id, now()
+        FROM blog_posts p
+        WHERE p.id = ANY (p_post_ids);
+    END IF;
+
+    RETURN QUERY SELECT i, true, NULL::TEXT FROM unnest(p_post_ids) AS i;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION bulk_post_action(BIGINT[], TEXT, UUID, BIGINT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,167 @@
+-- ถังขยะสำหรับ posts: DELETE /posts/:postId ย้าย post เข้าถังขยะแทนการลบจริง
+-- comments และ post_likes ยังอยู่ครบ แต่ถูกซ่อนจาก public routes จนกว่าจะกู้คืน
+ALTER TABLE blog_posts
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS blog_posts_deleted_at_idx ON blog_posts (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- tag cloud ไม่นับ post ที่อยู่ในถังขยะ
+CREATE OR REPLACE VIEW tag_post_counts AS
+SELECT t.id, t.name, t.slug, count(p.id) AS post_count
+FROM tags t
+LEFT JOIN post_tags pt ON pt.tag_id = t.id
+LEFT JOIN blog_posts p ON p.id = pt.post_id AND p.status_id = 1 AND p.deleted_at IS NULL
+GROUP BY t.id, t.name, t.slug;
+
+-- search_posts ไม่คืน post ที่อยู่ในถังขยะ
+CREATE OR REPLACE FUNCTION search_posts(
+    search_query TEXT,
+    filter_status_id INTEGER DEFAULT NULL,
+    filter_category_ids BIGINT[] DEFAULT NULL,
+    result_limit INTEGER DEFAULT 10,
+    result_offset INTEGER DEFAULT 0,
+    filter_tag_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+    id BIGINT,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('simple', search_query) AS q
+    ),
+    matches AS (
+        SELECT p.id, p.title, p.description, p.content,
+               ts_rank_cd(p.search_vector, query.q) AS rank,
+               query.q
+        FROM blog_posts p, query
+        WHERE p.search_vector @@ query.q
+          AND p.deleted_at IS NULL
+          AND (filter_status_id IS NULL OR p.status_id = filter_status_id)
+          AND (filter_category_ids IS NULL OR p.category_id = ANY (filter_category_ids))
+          AND (filter_tag_id IS NULL OR EXISTS (
+              SELECT 1 FROM post_tags pt WHERE pt.post_id = p.id AND pt.tag_id = filter_tag_id
+          ))
+    )
+    SELECT m.id,
+           m.rank,
+           ts_headline('simple', html_escape(m.title), m.q,
+               'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+           ts_headline('simple', html_escape(coalesce(nullif(m.content, ''), m.description)), m.q,
+               'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'),
+           count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.id DESC
+    LIMIT greatest(result_limit, 1)
+    OFFSET greatest(result_offset, 0);
+$$;
+
+-- bulk delete ย้าย post เข้าถังขยะ (post ที่อยู่ในถังขยะแล้วถือว่าหาไม่เจอ)
+CREATE OR REPLACE FUNCTION bulk_post_action(
+    p_post_ids BIGINT[],
+    p_action TEXT,
+    p_editor_id UUID,
+    p_category_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (post_id BIGINT, success BOOLEAN, error TEXT)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_missing BIGINT[];
+BEGIN
+    IF p_action NOT IN ('publish', 'unpublish', 'move', 'delete') THEN
+        RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+    END IF;
+
+    IF p_action = 'move' AND NOT EXISTS (SELECT 1 FROM categories c WHERE c.id = p_category_id) THEN
+        RAISE EXCEPTION 'Category % does not exist', p_category_id;
+    END IF;
+
+    SELECT array_agg(i) INTO v_missing
+    FROM unnest(p_post_ids) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM blog_posts p WHERE p.id = i AND p.deleted_at IS NULL);
+
+    IF v_missing IS NOT NULL THEN
+        RETURN QUERY
+        SELECT i, false,
+               CASE WHEN i = ANY (v_missing) THEN 'Post not found' ELSE 'Not applied: batch rolled back' END
+        FROM unnest(p_post_ids) AS i;
+        RETURN;
+    END IF;
+
+    IF p_action = 'publish' THEN
+        -- post ที่เผยแพร่อยู่แล้วคงวันที่เผยแพร่เดิมไว้
+        UPDATE blog_posts p
+        SET status_id = 1,
+            published_at = CASE WHEN p.status_id = 1 AND p.published_at IS NOT NULL THEN p.published_at ELSE now() END,
+            last_edited_by = p_editor_id,
+            updated_at = now()
+        WHERE p.id = ANY (p_post_ids);
+    ELSIF p_action = 'unpublish' THEN
+        UPDATE blog_posts p
+        SET status_id = 2, published_at = NULL, last_edited_by = p_editor_id, updated_at = now()
+        WHERE p.id = ANY (p_post_ids);
+    ELSIF p_action = 'move' THEN
+        UPDATE blog_posts p
+        SET category_id = p_category_id, last_edited_by = p_editor_id, updated_at = now()
+        WHERE p.id = ANY (p_post_ids);
+    ELSIF p_action = 'delete' THEN
+        UPDATE blog_posts p
+        SET deleted_at = now(), deleted_by = p_editor_id
+        WHERE p.id = ANY (p_post_ids);
+    END IF;
+
+    -- เก็บ revision ของ post ที่ถูกแก้ไข
+    IF p_action <> 'delete' THEN
+        INSERT INTO post_revisions (post_id, revision_number, title, slug, image, category_id, description, content, status_id, published_at, edited_by, created_at)
+        SELECT p.id,
+               coalesce((SELECT max(r.revision_number) FROM post_revisions r WHERE r.post_id = p.id), 0) + 1,
+               p.title, p.slug, p.image, p.category_id, p.description, p.content, p.status_id, p.published_at,
+               p_editor_id, now()
+        FROM blog_posts p
+        WHERE p.id = ANY (p_post_ids);
+    END IF;
+
+    RETURN QUERY SELECT i, true, NULL::TEXT FROM unnest(p_post_ids) AS i;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION bulk_post_action(BIGINT[], TEXT, UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- ลบ post ที่อยู่ในถังขยะนานเกินกำหนดแบบถาวร พร้อม comments และ post_likes (เรียกจาก cron)
+CREATE OR REPLACE FUNCTION purge_trashed_posts(p_retention_days INTEGER DEFAULT 30)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_post_ids BIGINT[];
+BEGIN
+    SELECT array_agg(p.id) INTO v_post_ids
+    FROM blog_posts p
+    WHERE p.deleted_at < now() - make_interval(days => p_retention_days);
+
+    IF v_post_ids IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    DELETE FROM comments c WHERE c.post_id = ANY (v_post_ids);
+    DELETE FROM post_likes l WHERE l.post_id = ANY (v_post_ids);
+    DELETE FROM blog_posts p WHERE p.id = ANY (v_post_ids);
+
+    RETURN cardinality(v_post_ids);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_trashed_posts(INTEGER) FROM PUBLIC, anon, authenticated;
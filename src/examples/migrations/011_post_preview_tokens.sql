@@ -0,0 +1,12 @@
+-- Preview token สำหรับแชร์ draft ให้คนที่ไม่ได้ล็อกอินอ่านได้ชั่วคราว
+-- ตัว token ลงลายเซ็น HMAC และมีวันหมดอายุในตัว ตารางนี้ใช้สำหรับ revoke และดูรายการ token
+CREATE TABLE IF NOT EXISTS post_preview_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id BIGINT NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS post_preview_tokens_post_id_idx ON post_preview_tokens (post_id, created_at DESC);
@@ -0,0 +1,77 @@
+-- role "editor": สร้าง post ได้ แต่แก้ไข/ลบได้เฉพาะ post ที่ author_id เป็นของตัวเอง
+-- users.role ใช้ค่า 'user', 'editor', 'admin'
+
+-- role ของผู้ใช้ปัจจุบัน (SECURITY DEFINER เพื่อไม่ให้ policy ของ users วนเรียกตัวเอง)
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM users WHERE id = auth.uid();
+$$;
+
+-- ผู้ใช้ปัจจุบันเป็นผู้เขียน post นี้หรือไม่ (ใช้กับ policy ของตารางที่ผูกกับ post)
+CREATE OR REPLACE FUNCTION is_own_post(p_post_id BIGINT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM blog_posts WHERE id = p_post_id AND author_id = auth.uid());
+$$;
+
+-- เพิ่ม filter ตามผู้เขียนให้ search_posts (editor เห็นเฉพาะ post ของตัวเองในหน้า admin)
+DROP FUNCTION IF EXISTS search_posts(TEXT, INTEGER, BIGINT[], INTEGER, INTEGER, BIGINT);
+
+CREATE OR REPLACE FUNCTION search_posts(
+    search_query TEXT,
+    filter_status_id INTEGER DEFAULT NULL,
+    filter_category_ids BIGINT[] DEFAULT NULL,
+    result_limit INTEGER DEFAULT 10,
+    result_offset INTEGER DEFAULT 0,
+    filter_tag_id BIGINT DEFAULT NULL,
+    filter_author_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    id BIGINT,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('simple', search_query) AS q
+    ),
+    matches AS (
+        SELECT p.id, p.title, p.description, p.content,
+               ts_rank_cd(p.search_vector, query.q) AS rank,
+               query.q
+        FROM blog_posts p, query
+        WHERE p.search_vector @@ query.q
+          AND p.deleted_at IS NULL
+          AND (filter_author_id IS NULL OR p.author_id = filter_author_id)
+          AND (filter_status_id IS NULL OR p.status_id = filter_status_id)
+          AND (filter_category_ids IS NULL OR p.category_id = ANY (filter_category_ids))
+          AND (filter_tag_id IS NULL OR EXISTS (
+              SELECT 1 FROM post_tags pt WHERE pt.post_id = p.id AND pt.tag_id = filter_tag_id
+          ))
+    )
+    SELECT m.id,
+           m.rank,
+           ts_headline('simple', html_escape(m.title), m.q,
+               'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+           ts_headline('simple', html_escape(coalesce(nullif(m.content, ''), m.description)), m.q,
+               'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'),
+           count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.id DESC
+    LIMIT greatest(result_limit, 1)
+    OFFSET greatest(result_offset, 0);
+$$;
@@ -0,0 +1,37 @@
+-- Series สำหรับบทความหลายตอน (เช่น tutorial part 1, 2, 3)
+CREATE TABLE IF NOT EXISTS series (
+    id BIGSERIAL PRIMARY KEY,
+    title TEXT NOT NULL,
+    slug TEXT NOT NULL UNIQUE,
+    description TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- ลำดับ post ใน series; post หนึ่งอยู่ได้เพียง series เดียว
+CREATE TABLE IF NOT EXISTS series_posts (
+    series_id BIGINT NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+    post_id BIGINT NOT NULL UNIQUE REFERENCES blog_posts(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (series_id, post_id),
+    UNIQUE (series_id, position)
+);
+
+-- แทนที่รายการ post ทั้งหมดของ series ตามลำดับใน array (ใช้ทั้งตอนตั้งค่าและจัดลำดับใหม่)
+-- ทำใน transaction เดียว จึงไม่มีช่วงที่ series ว่างหรือ position ซ้ำ
+CREATE OR REPLACE FUNCTION set_series_posts(p_series_id BIGINT, p_post_ids BIGINT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM series_posts WHERE series_id = p_series_id;
+
+    INSERT INTO series_posts (series_id, post_id, position)
+    SELECT p_series_id, ids.post_id, ids.position::INTEGER
+    FROM unnest(coalesce(p_post_ids, ARRAY[]::BIGINT[])) WITH ORDINALITY AS ids(post_id, position);
+
+    UPDATE series SET updated_at = now() WHERE id = p_series_id;
+END;
+$$;
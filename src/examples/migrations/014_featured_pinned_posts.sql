@@ -0,0 +1,37 @@
+-- Featured posts (มีวันหมดอายุได้) และ pinned posts (ตำแหน่งชัดเจน) สำหรับหน้าแรก
+ALTER TABLE blog_posts
+    ADD COLUMN IF NOT EXISTS is_featured BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS featured_until TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS pinned_position INTEGER CHECK (pinned_position > 0);
+
+CREATE INDEX IF NOT EXISTS blog_posts_featured_idx ON blog_posts (published_at DESC) WHERE is_featured;
+CREATE INDEX IF NOT EXISTS blog_posts_pinned_idx ON blog_posts (pinned_position) WHERE pinned_position IS NOT NULL;
+
+-- ปักหมุด post ที่ตำแหน่ง p_position (NULL = เลิกปักหมุด)
+-- post ที่อยู่ตำแหน่งนั้นหรือหลังจากนั้นจะถูกเลื่อนลง แล้วเรียงเลขใหม่เป็น 1..n ไม่ให้มีช่องว่าง
+CREATE OR REPLACE FUNCTION set_post_pin(p_post_id BIGINT, p_position INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE blog_posts SET pinned_position = NULL WHERE id = p_post_id;
+
+    IF p_position IS NOT NULL THEN
+        UPDATE blog_posts SET pinned_position = pinned_position + 1
+        WHERE pinned_position >= p_position;
+
+        UPDATE blog_posts SET pinned_position = p_position WHERE id = p_post_id;
+    END IF;
+
+    WITH ordered AS (
+        SELECT id, row_number() OVER (ORDER BY pinned_position, id)::INTEGER AS position
+        FROM blog_posts
+        WHERE pinned_position IS NOT NULL
+    )
+    UPDATE blog_posts p SET pinned_position = o.position
+    FROM ordered o
+    WHERE p.id = o.id AND p.pinned_position <> o.position;
+END;
+$$;
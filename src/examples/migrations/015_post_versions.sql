@@ -0,0 +1,29 @@
+-- เลขเวอร์ชันของ post สำหรับ optimistic concurrency (ETag / If-Match ตอนแก้ไข post)
+ALTER TABLE blog_posts
+    ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- เพิ่มเวอร์ชันเฉพาะตอนเนื้อหาที่แก้ไขได้เปลี่ยน
+-- (ยอด likes / views ที่อัปเดตบ่อยจะไม่ทำให้ ETag ของคนที่กำลังแก้ไขหมดอายุ)
+CREATE OR REPLACE FUNCTION bump_post_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.title, NEW.slug, NEW.image, NEW.category_id, NEW.description, NEW.content, NEW.status_id, NEW.published_at)
+        IS DISTINCT FROM
+       (OLD.title, OLD.slug, OLD.image, OLD.category_id, OLD.description, OLD.content, OLD.status_id, OLD.published_at)
+    THEN
+        NEW.version := OLD.version + 1;
+    ELSE
+        NEW.version := OLD.version;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS blog_posts_bump_version ON blog_posts;
+CREATE TRIGGER blog_posts_bump_version
+    BEFORE UPDATE ON blog_posts
+    FOR EACH ROW
+    EXECUTE FUNCTION bump_post_version();
@@ -0,0 +1,23 @@
+-- Media library: บันทึกทุกไฟล์รูปที่อัปโหลดผ่าน /posts/upload-image และ /profiles/upload-image
+-- เพื่อให้ admin ค้นหา แก้ alt text / caption และลบไฟล์ที่ไม่ได้ใช้แล้วได้
+CREATE TABLE IF NOT EXISTS media (
+    id BIGSERIAL PRIMARY KEY,
+    bucket TEXT NOT NULL,
+    path TEXT NOT NULL,
+    url TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    original_name TEXT,
+    mime_type TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+    width INTEGER,
+    height INTEGER,
+    alt_text TEXT,
+    caption TEXT,
+    uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (bucket, path)
+);
+
+CREATE INDEX IF NOT EXISTS media_created_at_idx ON media (created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS media_uploaded_by_idx ON media (uploaded_by);
@@ -0,0 +1,4 @@
+-- ไฟล์ขนาดย่อ (thumbnail / medium / large แบบ WebP) ที่สร้างตอนอัปโหลด
+-- เก็บเป็น { "<ชื่อขนาด>": { "path", "url", "width", "height" } } เพื่อลบไฟล์พร้อมต้นฉบับได้
+ALTER TABLE media
+    ADD COLUMN IF NOT EXISTS variants JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,106 @@
+-- บันทึก revision ของ post ใน transaction เดียวกับการสร้าง/แก้ไข post
+-- เลข revision คำนวณใน trigger ขณะที่ถือ row lock ของ post อยู่ การบันทึกพร้อมกันจึงไม่ได้เลขซ้ำ
+-- และถ้าบันทึก revision ไม่สำเร็จ การแก้ไข post ก็จะถูก rollback ด้วย
+CREATE OR REPLACE FUNCTION record_post_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- เก็บ revision เฉพาะตอนที่ field ที่อยู่ใน revision เปลี่ยน (ยอด likes / views / trash ไม่นับ)
+    IF TG_OP = 'UPDATE' AND
+       (NEW.title, NEW.slug, NEW.image, NEW.category_id, NEW.description, NEW.content, NEW.status_id, NEW.published_at)
+       IS NOT DISTINCT FROM
+       (OLD.title, OLD.slug, OLD.image, OLD.category_id, OLD.description, OLD.content, OLD.status_id, OLD.published_at)
+    THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO post_revisions (post_id, revision_number, title, slug, image, category_id, description, content, status_id, published_at, edited_by, created_at)
+    VALUES (
+        NEW.id,
+        coalesce((SELECT max(r.revision_number) FROM post_revisions r WHERE r.post_id = NEW.id), 0) + 1,
+        NEW.title, NEW.slug, NEW.image, NEW.category_id, NEW.description, NEW.content, NEW.status_id, NEW.published_at,
+        -- ผู้ใช้ที่ล็อกอินอยู่ หรือ editor ที่ระบุไว้เมื่อเรียกด้วย service role (bulk action, cron)
+        coalesce(auth.uid(), NEW.last_edited_by, NEW.author_id),
+        now()
+    );
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_post_revision() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS blog_posts_record_revision ON blog_posts;
+CREATE TRIGGER blog_posts_record_revision
+    AFTER INSERT OR UPDATE ON blog_posts
+    FOR EACH ROW
+    EXECUTE FUNCTION record_post_revision();
+
+-- bulk action ไม่ต้องบันทึก revision เองแล้ว (ไม่งั้นจะได้ revision ซ้ำจาก trigger)
+CREATE OR REPLACE FUNCTION bulk_post_action(
+    p_post_ids BIGINT[],
+    p_action TEXT,
+    p_editor_id UUID,
+    p_category_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (post_id BIGINT, success BOOLEAN, error TEXT)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_missing BIGINT[];
+BEGIN
+    IF p_action NOT IN ('publish', 'unpublish', 'move', 'delete') THEN
+        RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+    END IF;
+
+    IF p_action = 'move' AND NOT EXISTS (SELECT 1 FROM categories c WHERE c.id = p_category_id) THEN
+        RAISE EXCEPTION 'Category % does not exist', p_category_id;
+    END IF;
+
+    SELECT array_agg(i) INTO v_missing
+    FROM unnest(p_post_ids) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM blog_posts p WHERE p.id = i AND p.deleted_at IS NULL);
+
+    IF v_missing IS NOT NULL THEN
+        RETURN QUERY
+        SELECT i, false,
+               CASE WHEN i = ANY (v_missing) THEN 'Post not found' ELSE 'Not applied: batch rolled back' END
+        FROM unnest(p_post_ids) AS i;
+        RETURN;
+    END IF;
+
+    IF p_action = 'publish' THEN
+        -- post ที่เผยแพร่อยู่แล้วคงวันที่เผยแพร่เดิมไว้
+        UPDATE blog_posts p
+        SET status_id = 1,
+            published_at = CASE WHEN p.status_id = 1 AND p.published_at IS NOT NULL THEN p.published_at ELSE now() END,
+            last_edited_by = p_editor_id,
+            updated_at = now()
+        WHERE p.id = ANY (p_post_ids);
+    ELSIF p_action = 'unpublish' THEN
+        UPDATE blog_posts p
+        SET status_id = 2, published_at = NULL, last_edited_by = p_editor_id, updated_at = now()
+        WHERE p.id = ANY (p_post_ids);
+    ELSIF p_action = 'move' THEN
+        UPDATE blog_posts p
+        SET category_id = p_category_id, last_edited_by = p_editor_id, updated_at = now()
+        WHERE p.id = ANY (p_post_ids);
+    ELSIF p_action = 'delete' THEN
+        UPDATE blog_posts p
+        SET deleted_at = now(), deleted_by = p_editor_id
+        WHERE p.id = ANY (p_post_ids);
+    END IF;
+
+    -- revision ของ post ที่ถูกแก้ไขถูกบันทึกโดย trigger record_post_revision
+
+    RETURN QUERY SELECT i, true, NULL::TEXT FROM unnest(p_post_ids) AS i;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION bulk_post_action(BIGINT[], TEXT, UUID, BIGINT) FROM PUBLIC, anon, authenticated;
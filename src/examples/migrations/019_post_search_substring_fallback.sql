@@ -0,0 +1,126 @@
+-- ค้นหาแบบ substring (ilike) เมื่อ full-text search ใช้ไม่ได้
+-- config 'simple' ตัดคำตามช่องว่างเท่านั้น ภาษาไทย (และภาษาอื่นที่ไม่เว้นวรรคระหว่างคำ) จึงค้นหาคำกลางประโยคไม่เจอ
+-- search_posts จะค้นหาด้วย ilike แทนเมื่อ query มีอักษรที่ไม่เว้นวรรค หรือเมื่อ full-text search ไม่เจออะไรเลย
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ข้อความทั้งหมดที่ใช้ค้นหาแบบ substring (index ด้วย trigram เพื่อให้ ilike '%...%' ไม่ต้อง scan ทั้งตาราง)
+CREATE OR REPLACE FUNCTION post_search_text(p_title TEXT, p_description TEXT, p_content TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT coalesce(p_title, '') || ' ' || coalesce(p_description, '') || ' ' || coalesce(p_content, '');
+$$;
+
+CREATE INDEX IF NOT EXISTS blog_posts_search_text_trgm_idx
+    ON blog_posts USING GIN (post_search_text(title, description, content) gin_trgm_ops);
+
+-- ตัดข้อความรอบคำที่เจอ แล้วครอบด้วย <mark> (escape HTML ก่อนเหมือน ts_headline ใน 005)
+CREATE OR REPLACE FUNCTION highlight_substring(input TEXT, search_query TEXT, max_length INTEGER DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_text TEXT := coalesce(input, '');
+    v_position INTEGER := strpos(lower(v_text), lower(search_query));
+    v_start INTEGER;
+BEGIN
+    IF max_length IS NOT NULL AND length(v_text) > max_length THEN
+        v_start := greatest(v_position - max_length / 3, 1);
+        v_text := CASE WHEN v_start > 1 THEN '… ' ELSE '' END
+            || substr(v_text, v_start, max_length)
+            || CASE WHEN v_start + max_length <= length(v_text) THEN ' …' ELSE '' END;
+        v_position := strpos(lower(v_text), lower(search_query));
+    END IF;
+
+    IF v_position = 0 OR search_query = '' THEN
+        RETURN html_escape(v_text);
+    END IF;
+
+    RETURN html_escape(substr(v_text, 1, v_position - 1))
+        || '<mark>' || html_escape(substr(v_text, v_position, length(search_query))) || '</mark>'
+        || html_escape(substr(v_text, v_position + length(search_query)));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_posts(
+    search_query TEXT,
+    filter_status_id INTEGER DEFAULT NULL,
+    filter_category_ids BIGINT[] DEFAULT NULL,
+    result_limit INTEGER DEFAULT 10,
+    result_offset INTEGER DEFAULT 0,
+    filter_tag_id BIGINT DEFAULT NULL,
+    filter_author_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    id BIGINT,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('simple', search_query) AS q,
+               btrim(search_query) AS phrase,
+               -- escape wildcard ของ LIKE ให้ค้นหาตามตัวอักษรจริง
+               '%' || replace(replace(replace(btrim(search_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+               -- ไทย ลาว พม่า เขมร ญี่ปุ่น จีน เกาหลี
+               search_query ~ '[\u0E00-\u0EFF\u1000-\u109F\u1780-\u17FF\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF]' AS unspaced
+    ),
+    candidates AS (
+        SELECT p.id, p.title, p.description, p.content, p.search_vector
+        FROM blog_posts p
+        WHERE p.deleted_at IS NULL
+          AND (filter_author_id IS NULL OR p.author_id = filter_author_id)
+          AND (filter_status_id IS NULL OR p.status_id = filter_status_id)
+          AND (filter_category_ids IS NULL OR p.category_id = ANY (filter_category_ids))
+          AND (filter_tag_id IS NULL OR EXISTS (
+              SELECT 1 FROM post_tags pt WHERE pt.post_id = p.id AND pt.tag_id = filter_tag_id
+          ))
+    ),
+    fts_matches AS (
+        SELECT c.id,
+               ts_rank_cd(c.search_vector, query.q) AS rank,
+               ts_headline('simple', html_escape(c.title), query.q,
+                   'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title_highlight,
+               ts_headline('simple', html_escape(coalesce(nullif(c.content, ''), c.description)), query.q,
+                   'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "') AS snippet
+        FROM candidates c, query
+        WHERE NOT query.unspaced
+          AND c.search_vector @@ query.q
+    ),
+    -- ใช้เมื่อ query ไม่เว้นวรรค หรือ full-text search ไม่เจอ; คำที่อยู่ใน title มาก่อน
+    substring_matches AS (
+        SELECT c.id,
+               (CASE WHEN c.title ILIKE query.pattern THEN 1.0
+                     WHEN c.description ILIKE query.pattern THEN 0.5
+                     ELSE 0.1 END)::REAL AS rank,
+               highlight_substring(c.title, query.phrase) AS title_highlight,
+               highlight_substring(
+                   CASE WHEN c.content ILIKE query.pattern OR coalesce(c.content, '') = '' THEN c.content ELSE c.description END,
+                   query.phrase, 200) AS snippet
+        FROM candidates c, query
+        WHERE query.phrase <> ''
+          AND NOT EXISTS (SELECT 1 FROM fts_matches)
+          AND post_search_text(c.title, c.description, c.content) ILIKE query.pattern
+    ),
+    matches AS (
+        SELECT * FROM fts_matches
+        UNION ALL
+        SELECT * FROM substring_matches
+    )
+    SELECT m.id,
+           m.rank,
+           m.title_highlight,
+           m.snippet,
+           count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.id DESC
+    LIMIT greatest(result_limit, 1)
+    OFFSET greatest(result_offset, 0);
+$$;
@@ -0,0 +1,19 @@
+-- แทนที่ tag ของ post ใน transaction เดียว (เดิมลบแล้ว upsert แยกกันสอง request ถ้าอันหลังพัง post จะเหลือ tag ไม่ครบ)
+-- SECURITY INVOKER เพื่อให้ policy ของ post_tags (editor แก้ได้เฉพาะ post ของตัวเอง) ยังทำงาน
+CREATE OR REPLACE FUNCTION set_post_tags(p_post_id BIGINT, p_tag_ids BIGINT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM post_tags
+    WHERE post_id = p_post_id
+      AND NOT (tag_id = ANY (coalesce(p_tag_ids, ARRAY[]::BIGINT[])));
+
+    INSERT INTO post_tags (post_id, tag_id)
+    SELECT p_post_id, ids.tag_id
+    FROM unnest(coalesce(p_tag_ids, ARRAY[]::BIGINT[])) AS ids(tag_id)
+    ON CONFLICT (post_id, tag_id) DO NOTHING;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- record_post_view และ prune_post_view_visitors เป็น SECURITY DEFINER และเชื่อ viewer key / ช่วงเวลาที่ผู้เรียกส่งมา
+-- ถ้า anon เรียกได้โดยตรงจะปั๊มยอดวิวได้ (ส่ง viewer key ใหม่ทุกครั้ง หรือ p_window_minutes = 0)
+-- และล้างข้อมูลผู้เข้าชมได้ จึงให้เรียกผ่าน service role จาก API เท่านั้น (ดู utils/viewCounter.ts)
+REVOKE EXECUTE ON FUNCTION record_post_view(BIGINT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION prune_post_view_visitors(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,51 @@
+-- record_post_view ไม่นับวิวของ post ที่อยู่ในถังขยะ (deleted_at) หรือยังไม่ถึงเวลาเผยแพร่
+-- คืนค่าแถวว่างเหมือน post ที่ไม่มีอยู่ API จึงตอบ 404
+CREATE OR REPLACE FUNCTION record_post_view(
+    p_post_id BIGINT,
+    p_viewer_key TEXT,
+    p_window_minutes INTEGER DEFAULT 30
+)
+RETURNS TABLE (counted BOOLEAN, views BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_counted BOOLEAN;
+    v_views BIGINT;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM blog_posts p
+        WHERE p.id = p_post_id
+          AND p.status_id = 1
+          AND (p.published_at IS NULL OR p.published_at <= now())
+          AND p.deleted_at IS NULL
+    ) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO post_view_visitors AS v (post_id, viewer_key, last_counted_at)
+    VALUES (p_post_id, p_viewer_key, now())
+    ON CONFLICT (post_id, viewer_key) DO UPDATE
+        SET last_counted_at = now()
+        WHERE v.last_counted_at < now() - make_interval(mins => p_window_minutes)
+    RETURNING true INTO v_counted;
+
+    IF coalesce(v_counted, false) THEN
+        UPDATE blog_posts p SET views = coalesce(p.views, 0) + 1
+        WHERE p.id = p_post_id
+        RETURNING p.views INTO v_views;
+
+        INSERT INTO post_view_daily AS d (post_id, day, views)
+        VALUES (p_post_id, current_date, 1)
+        ON CONFLICT (post_id, day) DO UPDATE SET views = d.views + 1;
+    ELSE
+        SELECT p.views INTO v_views FROM blog_posts p WHERE p.id = p_post_id;
+    END IF;
+
+    RETURN QUERY SELECT coalesce(v_counted, false), coalesce(v_views, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_post_view(BIGINT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
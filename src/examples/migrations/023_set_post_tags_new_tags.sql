@@ -0,0 +1,35 @@
+-- set_post_tags สร้าง tag ใหม่ใน transaction เดียวกับการแทนที่ tag ของ post
+-- เดิม tag ใหม่ถูกสร้างก่อนบันทึก post ถ้าบันทึก post ไม่สำเร็จจะเหลือ tag ที่ไม่มี post ใช้
+-- p_new_tags เป็น array ของ {"name": ..., "slug": ...} ที่ API ตรวจแล้ว (ดู utils/tagHelper.ts)
+DROP FUNCTION IF EXISTS set_post_tags(BIGINT, BIGINT[]);
+
+CREATE OR REPLACE FUNCTION set_post_tags(p_post_id BIGINT, p_tag_ids BIGINT[], p_new_tags JSONB DEFAULT '[]'::JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_tag_ids BIGINT[];
+BEGIN
+    -- tag ที่มีคนสร้างไปพร้อมกันแล้วใช้ตัวที่มีอยู่
+    INSERT INTO tags (name, slug)
+    SELECT t->>'name', t->>'slug'
+    FROM jsonb_array_elements(coalesce(p_new_tags, '[]'::JSONB)) AS t
+    ON CONFLICT (slug) DO NOTHING;
+
+    v_tag_ids := coalesce(p_tag_ids, ARRAY[]::BIGINT[]) || ARRAY(
+        SELECT tg.id FROM tags tg
+        WHERE tg.slug IN (SELECT t->>'slug' FROM jsonb_array_elements(coalesce(p_new_tags, '[]'::JSONB)) AS t)
+    );
+
+    DELETE FROM post_tags
+    WHERE post_id = p_post_id
+      AND NOT (tag_id = ANY (v_tag_ids));
+
+    INSERT INTO post_tags (post_id, tag_id)
+    SELECT DISTINCT p_post_id, ids.tag_id
+    FROM unnest(v_tag_ids) AS ids(tag_id)
+    ON CONFLICT (post_id, tag_id) DO NOTHING;
+END;
+$$;
@@ -90,3 +90,186 @@ CREATE POLICY "Admins can create notifications" ON notifications
 -- ให้ผู้ใช้แก้ไข notifications ของตัวเองได้ (เช่น mark as read)
 CREATE POLICY "Users can update own notifications" ON notifications
     FOR UPDATE USING (auth.uid() = user_id);
+
+-- 9. Policy สำหรับตาราง post_slug_redirects
+ALTER TABLE post_slug_redirects ENABLE ROW LEVEL SECURITY;
+
+-- ให้ทุกคนอ่าน redirect ได้ (ใช้กับ GET /posts/slug/:slug)
+CREATE POLICY "Anyone can view slug redirects" ON post_slug_redirects
+    FOR SELECT USING (true);
+
+-- ให้ admin เท่านั้นที่จัดการ redirect ได้
+CREATE POLICY "Admins can manage slug redirects" ON post_slug_redirects
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users 
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- 10. Policy สำหรับตาราง post_revisions
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- ให้ admin เท่านั้นที่ดูและบันทึก revision ได้
+CREATE POLICY "Admins can manage post revisions" ON post_revisions
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users 
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- 11. Policy สำหรับตาราง tags และ post_tags
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE post_tags ENABLE ROW LEVEL SECURITY;
+
+-- ให้ทุกคนดู tags ได้
+CREATE POLICY "Anyone can view tags" ON tags
+    FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view post tags" ON post_tags
+    FOR SELECT USING (true);
+
+-- ให้ admin เท่านั้นที่จัดการ tags ได้
+CREATE POLICY "Admins can manage tags" ON tags
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users 
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can manage post tags" ON post_tags
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users 
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- 12. Policy สำหรับตาราง post_view_visitors และ post_view_daily
+-- การเขียนทำผ่าน record_post_view (SECURITY DEFINER) เท่านั้น
+ALTER TABLE post_view_visitors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE post_view_daily ENABLE ROW LEVEL SECURITY;
+
+-- ให้ admin ดูสถิติยอดวิวรายวันได้
+CREATE POLICY "Admins can view daily post views" ON post_view_daily
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM users 
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- 13. ซ่อน posts ที่อยู่ในถังขยะ (deleted_at) จากผู้ใช้ทั่วไป
+DROP POLICY IF EXISTS "Anyone can view published posts" ON blog_posts;
+
+CREATE POLICY "Anyone can view published posts" ON blog_posts
+    FOR SELECT USING (status_id = 1 AND deleted_at IS NULL);
+
+-- 14. Policy สำหรับตาราง post_preview_tokens
+-- public preview route ตรวจ token ผ่าน service role จึงไม่ต้องเปิดให้ anon อ่าน
+ALTER TABLE post_preview_tokens ENABLE ROW LEVEL SECURITY;
+
+-- ให้ admin เท่านั้นที่สร้าง ดู และ revoke token ได้
+CREATE POLICY "Admins can manage preview tokens" ON post_preview_tokens
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users 
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- 15. Policy สำหรับ role editor (ใช้ฟังก์ชันจาก migrations/012_editor_role.sql)
+-- editor สร้าง post ได้ และดู/แก้ไข/ลบได้เฉพาะ post ที่ตัวเองเป็นผู้เขียน
+-- editor ไม่มี policy สำหรับ users (นอกจากโปรไฟล์ตัวเอง), categories และ notifications
+CREATE POLICY "Editors can view own posts" ON blog_posts
+    FOR SELECT USING (current_user_role() = 'editor' AND author_id = auth.uid());
+
+CREATE POLICY "Editors can create own posts" ON blog_posts
+    FOR INSERT WITH CHECK (current_user_role() = 'editor' AND author_id = auth.uid());
+
+CREATE POLICY "Editors can update own posts" ON blog_posts
+    FOR UPDATE USING (current_user_role() = 'editor' AND author_id = auth.uid())
+    WITH CHECK (current_user_role() = 'editor' AND author_id = auth.uid());
+
+CREATE POLICY "Editors can delete own posts" ON blog_posts
+    FOR DELETE USING (current_user_role() = 'editor' AND author_id = auth.uid());
+
+-- ข้อมูลที่ผูกกับ post ของ editor เอง
+CREATE POLICY "Editors can manage own post revisions" ON post_revisions
+    FOR ALL USING (current_user_role() = 'editor' AND is_own_post(post_id))
+    WITH CHECK (current_user_role() = 'editor' AND is_own_post(post_id));
+
+CREATE POLICY "Editors can manage own slug redirects" ON post_slug_redirects
+    FOR ALL USING (current_user_role() = 'editor' AND is_own_post(post_id))
+    WITH CHECK (current_user_role() = 'editor' AND is_own_post(post_id));
+
+CREATE POLICY "Editors can manage own post tags" ON post_tags
+    FOR ALL USING (current_user_role() = 'editor' AND is_own_post(post_id))
+    WITH CHECK (current_user_role() = 'editor' AND is_own_post(post_id));
+
+CREATE POLICY "Editors can manage own preview tokens" ON post_preview_tokens
+    FOR ALL USING (current_user_role() = 'editor' AND is_own_post(post_id))
+    WITH CHECK (current_user_role() = 'editor' AND is_own_post(post_id));
+
+CREATE POLICY "Editors can view own daily post views" ON post_view_daily
+    FOR SELECT USING (current_user_role() = 'editor' AND is_own_post(post_id));
+
+-- editor สร้าง tag ใหม่ได้ตอนบันทึก post (แก้ไข/ลบ tag ยังเป็นของ admin)
+CREATE POLICY "Editors can create tags" ON tags
+    FOR INSERT WITH CHECK (current_user_role() = 'editor');
+
+-- ผู้ใช้แก้ไขโปรไฟล์ตัวเองได้ แต่เปลี่ยน role ตัวเองไม่ได้
+DROP POLICY IF EXISTS "Users can update own profile" ON users;
+
+CREATE POLICY "Users can update own profile" ON users
+    FOR UPDATE USING (auth.uid() = id)
+    WITH CHECK (auth.uid() = id AND role = current_user_role());
+
+-- 16. Policy สำหรับตาราง series และ series_posts
+ALTER TABLE series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE series_posts ENABLE ROW LEVEL SECURITY;
+
+-- ให้ทุกคนดู series ได้ (post ที่ยังไม่เผยแพร่ถูกซ่อนด้วย policy ของ blog_posts)
+CREATE POLICY "Anyone can view series" ON series
+    FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view series posts" ON series_posts
+    FOR SELECT USING (true);
+
+-- ให้ admin เท่านั้นที่จัดการ series ได้
+CREATE POLICY "Admins can manage series" ON series
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users 
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can manage series posts" ON series_posts
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users 
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- 17. Policy สำหรับตาราง media (media library)
+ALTER TABLE media ENABLE ROW LEVEL SECURITY;
+
+-- ผู้ใช้ที่ล็อกอินบันทึกไฟล์ที่ตัวเองอัปโหลดได้
+CREATE POLICY "Users can record own uploads" ON media
+    FOR INSERT WITH CHECK (auth.uid() = uploaded_by);
+
+CREATE POLICY "Users can view own uploads" ON media
+    FOR SELECT USING (auth.uid() = uploaded_by);
+
+-- ให้ admin เท่านั้นที่ดู แก้ไข และลบ media ได้
+CREATE POLICY "Admins can manage media" ON media
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users 
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
@@ -0,0 +1,12 @@
+import { publishDuePosts } from "../utils/postScheduler";
+
+// Cron-style entry point: npm run publish-scheduled
+publishDuePosts()
+  .then((result) => {
+    console.log(`✅ Scheduler finished at ${result.ranAt}:`, result.posts.map((post: any) => post.id));
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ Scheduler failed:", error);
+    process.exit(1);
+  });
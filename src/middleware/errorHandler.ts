@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from "express";
-import { AppError, ErrorResponse } from "../utils/errors";
+import { AppError, ConflictError, ErrorResponse } from "../utils/errors";
 
 // Error logging utility
 const logError = (error: Error, req: Request) => {
@@ -27,11 +27,16 @@ export const errorHandler = (
   let statusCode = 500;
   let message = "Internal Server Error";
   let stack: string | undefined;
+  let details: Record<string, unknown> | undefined;
 
   // Handle custom AppError instances
   if (error instanceof AppError) {
     statusCode = error.statusCode;
     message = error.message;
+
+    if (error instanceof ConflictError) {
+      details = error.details;
+    }
     
     // Only show stack in development
     if (process.env.NODE_ENV === 'development') {
@@ -53,6 +58,7 @@ export const errorHandler = (
       statusCode,
       timestamp: new Date().toISOString(),
       path: req.path,
+      ...(details && { details }),
       ...(stack && { stack }),
     },
   });
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from "express";
+import { getSupabaseWithAuth } from "../utils/supabase";
+
+// Middleware แนบข้อมูลผู้ใช้ถ้ามี token ที่ถูกต้อง แต่ไม่บล็อก request ที่ไม่มี token
+// ใช้กับ public routes ที่ทำงานต่างกันเล็กน้อยเมื่อผู้ใช้ login อยู่
+const optionalUser = async (req: Request, res: Response, next: NextFunction) => {
+  const token = req.headers.authorization?.split(" ")[1];
+
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const supabase = getSupabaseWithAuth(token);
+    const { data, error } = await supabase.auth.getUser();
+
+    if (!error && data.user) {
+      (req as any).user = { ...data.user };
+      (req as any).accessToken = token;
+    }
+  } catch (err) {
+    console.log("OptionalUser middleware error:", err);
+  }
+
+  return next();
+};
+
+export default optionalUser;
@@ -1,6 +1,7 @@
 
 import { Request, Response, NextFunction } from "express";
 import { ValidationError } from "../utils/errors";
+import { MAX_TAG_NAME_LENGTH, MAX_TAGS_PER_POST } from "../utils/tagHelper";
 
 interface PostData {
   title: string;
@@ -10,10 +11,12 @@ interface PostData {
   description: string;
   content: string;
   status_id: number;
+  published_at?: string; // Required when status_id = 3 (scheduled)
+  tags?: (string | number)[]; // Tag names or tag ids
 }
 
 function validatePostData(req: Request, res: Response, next: NextFunction) {
-  const { title, image, category_id, description, content, status_id } = req.body;
+  const { title, image, category_id, description, content, status_id, published_at, tags } = req.body;
   const imageFile = req.file; // From multer
   const errors: string[] = [];
 
@@ -85,6 +88,36 @@ function validatePostData(req: Request, res: Response, next: NextFunction) {
     errors.push("Status ID must be a positive integer");
   }
 
+  // Scheduled posts need a publish date in the future
+  if (published_at && isNaN(Date.parse(published_at))) {
+    errors.push("Published date must be a valid date");
+  }
+
+  if (Number(status_id) === 3) {
+    if (!published_at) {
+      errors.push("Published date is required for scheduled posts");
+    } else if (Date.parse(published_at) <= Date.now()) {
+      errors.push("Scheduled publish date must be in the future");
+    }
+  }
+
+  // Tags are optional; when sent they replace the post's tags
+  if (tags !== undefined) {
+    if (!Array.isArray(tags)) {
+      errors.push("Tags must be an array");
+    } else {
+      if (tags.length > MAX_TAGS_PER_POST) {
+        errors.push(`A post can have at most ${MAX_TAGS_PER_POST} tags`);
+      }
+      if (tags.some((tag: any) => typeof tag !== "string" && !(typeof tag === "number" && Number.isInteger(tag) && tag > 0))) {
+        errors.push("Tags must be tag names or positive integer tag IDs");
+      }
+      if (tags.some((tag: any) => typeof tag === "string" && tag.trim().length > MAX_TAG_NAME_LENGTH)) {
+        errors.push(`Tag names must be less than ${MAX_TAG_NAME_LENGTH} characters`);
+      }
+    }
+  }
+
   // URL validation for image (only if image is provided)
   if (image && typeof image === "string") {
     try {
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+
+// Middleware ตรวจสอบ secret สำหรับ internal/cron routes
+// Vercel Cron ส่ง header "Authorization: Bearer <CRON_SECRET>" มาให้อัตโนมัติ
+const protectCron = (req: Request, res: Response, next: NextFunction) => {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return res.status(503).json({ error: "Cron secret is not configured" });
+  }
+
+  const token = req.headers.authorization?.split(" ")[1] || "";
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return res.status(401).json({ error: "Unauthorized: Invalid cron secret" });
+  }
+
+  return next();
+};
+
+export default protectCron;
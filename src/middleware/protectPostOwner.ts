@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from "express";
+import { getSupabaseAdmin } from "../utils/supabase";
+
+// Middleware ตรวจสอบว่า editor เป็นเจ้าของ post (author_id) ที่ระบุใน :postId
+// ต้องใช้หลัง protectEditor; admin จัดการได้ทุก post
+const protectPostOwner = async (req: Request, res: Response, next: NextFunction) => {
+  const user = (req as any).user;
+  const postId = req.params.postId;
+
+  if (user?.role === "admin") {
+    return next();
+  }
+
+  if (!postId || isNaN(Number(postId))) {
+    return res.status(400).json({ error: "Invalid post ID" });
+  }
+
+  try {
+    // ใช้ service role เพื่อแยก "ไม่มี post" ออกจาก "ไม่ใช่เจ้าของ"
+    const { data: post, error } = await getSupabaseAdmin()
+      .from("blog_posts")
+      .select("author_id")
+      .eq("id", postId)
+      .maybeSingle();
+
+    if (error) {
+      return res.status(500).json({ error: "Internal server error" });
+    }
+
+    if (!post) {
+      return res.status(404).json({ error: "Post not found" });
+    }
+
+    if (post.author_id !== user?.id) {
+      return res
+        .status(403)
+        .json({ error: "Forbidden: You can only manage your own posts" });
+    }
+
+    return next();
+  } catch (err) {
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export default protectPostOwner;
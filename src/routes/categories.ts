@@ -4,6 +4,7 @@ import { DatabaseError, NotFoundError, ValidationError } from "../utils/errors";
 import protectAdmin from "../middleware/protectAdmin";
 import { createSupabaseRlsHelper, createSupabaseAdminHelper } from "../utils/supabaseRls";
 import { getSupabase } from "../utils/supabase";
+import { generateSlug } from "../utils/slugHelper";
 
 const router = Router();
 
@@ -87,16 +88,7 @@ router.post("/", protectAdmin, asyncHandler(async (req: Request, res: Response)
     }
 
     // Generate slug from name
-    const generateSlug = (name: string) => {
-      return name
-        .toLowerCase()
-        .replace(/[^a-z0-9 -]/g, '') // Remove special characters
-        .replace(/\s+/g, '-') // Replace spaces with hyphens
-        .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-        .trim();
-    };
-
-    const slug = generateSlug(name.trim());
+    const slug = generateSlug(name.trim(), "category");
 
     const result = await supabaseRls.insert("categories", {
       name: name.trim(),
@@ -159,16 +151,7 @@ router.put("/:categoryId", protectAdmin, asyncHandler(async (req: Request, res:
     }
 
     // Generate slug from name
-    const generateSlug = (name: string) => {
-      return name
-        .toLowerCase()
-        .replace(/[^a-z0-9 -]/g, '') // Remove special characters
-        .replace(/\s+/g, '-') // Replace spaces with hyphens
-        .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-        .trim();
-    };
-
-    const slug = generateSlug(name.trim());
+    const slug = generateSlug(name.trim(), "category");
 
     const result = await supabaseRls.update(
       "categories",
@@ -5,10 +5,16 @@ import protectUser from "../middleware/protectUser";
 import { createSupabaseRlsHelper } from "../utils/supabaseRls";
 import { getSupabase } from "../utils/supabase";
 import { createNotification, getPostAuthorId } from "../utils/notificationHelper";
+import { isPostActive } from "../utils/postTrash";
+import { applyCursor, buildNextCursor, decodeCursor, encodeCursor } from "../utils/cursorPagination";
 
 const router = Router();
 
+// Comments are always listed newest first
+const COMMENT_CURSOR_SORT = "newest";
+
 // GET /comments/:postId - Get all comments for a specific post with pagination
+// ?after=<nextCursor> switches to cursor pagination (an empty ?after= starts at the top)
 router.get("/:postId", asyncHandler(async (req: Request, res: Response) => {
   const postId = req.params.postId;
   
@@ -32,26 +38,23 @@ router.get("/:postId", asyncHandler(async (req: Request, res: Response) => {
     throw new ValidationError("Limit must be between 1 and 100");
   }
 
+  const cursorMode = req.query.after !== undefined;
+  const cursor = req.query.after ? decodeCursor(String(req.query.after), COMMENT_CURSOR_SORT) : null;
+
   // Use public Supabase client for getting comments (no authentication required)
   const supabase = getSupabase();
 
   try {
+    // Comments of trashed posts stay hidden until the post is restored
+    if (!(await isPostActive(postId))) {
+      throw new NotFoundError("Post", postId);
+    }
+
     // Calculate offset for pagination
     const offset = (page - 1) * limit;
 
-    // Get total count of comments for this post (optimized query)
-    const { count: totalCount, error: countError } = await supabase
-      .from("comments")
-      .select("*", { count: "exact", head: true })
-      .eq("post_id", postId);
-
-    if (countError) {
-      console.error("Supabase count error:", countError);
-      throw new DatabaseError(`Failed to count comments: ${countError.message}`);
-    }
-
     // Get paginated comments with user information
-    const { data: comments, error } = await supabase
+    let commentsQuery = supabase
       .from("comments")
       .select(`
         id,
@@ -72,8 +75,51 @@ router.get("/:postId", asyncHandler(async (req: Request, res: Response) => {
           role
         )
       `)
-      .eq("post_id", postId)
+      .eq("post_id", postId);
+
+    if (cursorMode) {
+      if (cursor) {
+        commentsQuery = applyCursor(commentsQuery, "created_at", false, cursor);
+      }
+
+      // One extra row tells whether another page follows, so no count query is needed
+      const { data, error } = await commentsQuery
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(limit + 1);
+
+      if (error) {
+        console.error("Supabase error:", error);
+        throw new DatabaseError(`Failed to fetch comments: ${error.message}`);
+      }
+
+      const { items, nextCursor } = buildNextCursor(data || [], limit, COMMENT_CURSOR_SORT, "created_at");
+
+      return res.status(200).json({
+        success: true,
+        data: items,
+        pagination: {
+          itemsPerPage: limit,
+          hasNextPage: nextCursor !== null,
+          nextCursor
+        }
+      });
+    }
+
+    // Get total count of comments for this post (optimized query)
+    const { count: totalCount, error: countError } = await supabase
+      .from("comments")
+      .select("*", { count: "exact", head: true })
+      .eq("post_id", postId);
+
+    if (countError) {
+      console.error("Supabase count error:", countError);
+      throw new DatabaseError(`Failed to count comments: ${countError.message}`);
+    }
+
+    const { data: comments, error } = await commentsQuery
       .order("created_at", { ascending: false })
+      .order("id", { ascending: false }) // Stable order between pages
       .range(offset, offset + limit - 1);
 
     if (error) {
@@ -86,6 +132,10 @@ router.get("/:postId", asyncHandler(async (req: Request, res: Response) => {
     const totalPages = totalItems > 0 ? Math.ceil(totalItems / limit) : 1;
     const hasNextPage = page < totalPages;
     const hasPrevPage = page > 1;
+    const lastComment = comments?.[comments.length - 1];
+    const nextCursor = hasNextPage && lastComment
+      ? encodeCursor(COMMENT_CURSOR_SORT, lastComment.created_at, lastComment.id)
+      : null;
 
     // Handle case where page exceeds total pages
     if (page > totalPages && totalPages > 0) {
@@ -113,10 +163,14 @@ router.get("/:postId", asyncHandler(async (req: Request, res: Response) => {
         totalItems,
         itemsPerPage: limit,
         hasNextPage,
-        hasPrevPage
+        hasPrevPage,
+        nextCursor
       }
     });
   } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
     console.error("Error fetching comments:", error);
     throw new DatabaseError("Failed to fetch comments");
   }
@@ -140,6 +194,10 @@ router.post("/", protectUser, asyncHandler(async (req: Request, res: Response) =
   const supabaseRls = createSupabaseRlsHelper(accessToken);
 
   try {
+    if (!(await isPostActive(post_id))) {
+      throw new NotFoundError("Post", post_id);
+    }
+
     // Get user info for the comment
     const user = await supabaseRls.select("users", "name, username, profile_pic", { id: userId });
     
@@ -196,6 +254,9 @@ router.post("/", protectUser, asyncHandler(async (req: Request, res: Response) =
       data: newComment
     });
   } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
     console.error("Error creating comment:", error);
     throw new DatabaseError("Failed to create comment");
   }
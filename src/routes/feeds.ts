@@ -0,0 +1,183 @@
+import { Router, Request, Response } from "express";
+import { createHash } from "crypto";
+import { asyncHandler } from "../middleware/errorHandler";
+import { DatabaseError, NotFoundError } from "../utils/errors";
+import { getSupabase } from "../utils/supabase";
+import { buildSiteUrl, siteConfig } from "../utils/config";
+import { normalizeSlug } from "../utils/slugHelper";
+import { buildAtom, buildJsonFeed, buildRss, FeedData, FeedItem } from "../utils/feedBuilder";
+
+const router = Router();
+
+type FeedFormat = "rss" | "atom" | "json";
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+// Base URL of this API for self links; API_URL wins, otherwise derived from the request
+const getApiBaseUrl = (req: Request) => {
+  if (siteConfig.apiUrl) {
+    return siteConfig.apiUrl;
+  }
+  const protocol = (req.get("X-Forwarded-Proto") || req.protocol).split(",")[0];
+  return `${protocol}://${req.get("host")}`;
+};
+
+// Load the latest published posts (optionally in one category) as feed items
+const loadFeedItems = async (categoryId?: number): Promise<FeedItem[]> => {
+  const supabase = getSupabase();
+
+  let query = supabase
+    .from("blog_posts")
+    .select(`
+      id,
+      title,
+      slug,
+      description,
+      image,
+      published_at,
+      created_at,
+      updated_at,
+      categories(name),
+      users!author_id(name, username)
+    `)
+    .eq("status_id", 1) // Published posts only
+    .is("deleted_at", null)
+    .order("published_at", { ascending: false, nullsFirst: false })
+    .limit(Math.max(1, siteConfig.feedItemLimit));
+
+  if (categoryId !== undefined) {
+    query = query.eq("category_id", categoryId);
+  }
+
+  const { data: posts, error } = await query;
+
+  if (error) {
+    throw new DatabaseError(`Failed to fetch feed posts: ${error.message}`);
+  }
+
+  return (posts || []).map((post: any) => {
+    const publishedAt = new Date(post.published_at || post.created_at);
+    const updatedAt = new Date(post.updated_at || post.published_at || post.created_at);
+
+    return {
+      id: `${siteConfig.siteUrl}/posts/${post.id}`,
+      title: post.title,
+      url: buildSiteUrl(siteConfig.postPath, { slug: post.slug || post.id, id: post.id }),
+      description: post.description || "",
+      author: post.users?.name || post.users?.username,
+      category: post.categories?.name,
+      publishedAt,
+      updatedAt: updatedAt > publishedAt ? updatedAt : publishedAt,
+      image: post.image,
+    };
+  });
+};
+
+// Render the feed and answer conditional requests with 304 via Last-Modified/ETag
+const sendFeed = (req: Request, res: Response, format: FeedFormat, feed: FeedData) => {
+  const body = format === "rss" ? buildRss(feed) : format === "atom" ? buildAtom(feed) : buildJsonFeed(feed);
+  const etag = `"${createHash("sha1").update(body).digest("hex")}"`;
+
+  res.set({
+    "Content-Type": CONTENT_TYPES[format],
+    "Cache-Control": "public, max-age=600, s-maxage=900",
+    "Last-Modified": feed.updatedAt.toUTCString(),
+    ETag: etag,
+  });
+
+  // req.fresh compares If-None-Match / If-Modified-Since with the headers above
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
+  return res.status(200).send(body);
+};
+
+const buildFeedData = (
+  req: Request,
+  items: FeedItem[],
+  paths: Record<FeedFormat, string>,
+  title: string,
+  description: string,
+  siteUrl: string
+): FeedData => {
+  const apiBaseUrl = getApiBaseUrl(req);
+  const latest = items.reduce(
+    (max, item) => (item.updatedAt > max ? item.updatedAt : max),
+    new Date(0)
+  );
+
+  return {
+    title,
+    description,
+    siteUrl,
+    language: siteConfig.language,
+    rssUrl: `${apiBaseUrl}${paths.rss}`,
+    atomUrl: `${apiBaseUrl}${paths.atom}`,
+    jsonUrl: `${apiBaseUrl}${paths.json}`,
+    // Whole seconds, because Last-Modified has no sub-second precision
+    updatedAt: new Date(Math.floor(latest.getTime() / 1000) * 1000),
+    items,
+  };
+};
+
+// GET /feed.xml, /atom.xml, /feed.json - Site-wide feeds
+const siteFeed = (format: FeedFormat) => asyncHandler(async (req: Request, res: Response) => {
+  const items = await loadFeedItems();
+  const feed = buildFeedData(
+    req,
+    items,
+    { rss: "/feed.xml", atom: "/atom.xml", json: "/feed.json" },
+    siteConfig.title,
+    siteConfig.description,
+    siteConfig.siteUrl
+  );
+
+  return sendFeed(req, res, format, feed);
+});
+
+router.get("/feed.xml", siteFeed("rss"));
+router.get("/atom.xml", siteFeed("atom"));
+router.get("/feed.json", siteFeed("json"));
+
+// GET /categories/:slug/feed.xml (also atom.xml, feed.json) - Feeds for one category
+const categoryFeed = (format: FeedFormat) => asyncHandler(async (req: Request, res: Response) => {
+  const slug = normalizeSlug(String(req.params.slug || ""));
+  const supabase = getSupabase();
+
+  const { data: category, error } = await supabase
+    .from("categories")
+    .select("id, name, slug")
+    .eq("slug", slug)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(`Failed to fetch category: ${error.message}`);
+  }
+  if (!category) {
+    throw new NotFoundError("Category");
+  }
+
+  const items = await loadFeedItems(category.id);
+  const basePath = `/categories/${encodeURIComponent(category.slug)}`;
+  const feed = buildFeedData(
+    req,
+    items,
+    { rss: `${basePath}/feed.xml`, atom: `${basePath}/atom.xml`, json: `${basePath}/feed.json` },
+    `${siteConfig.title} - ${category.name}`,
+    `Latest ${category.name} posts from ${siteConfig.title}`,
+    buildSiteUrl(siteConfig.categoryPath, { slug: category.slug, id: category.id })
+  );
+
+  return sendFeed(req, res, format, feed);
+});
+
+router.get("/categories/:slug/feed.xml", categoryFeed("rss"));
+router.get("/categories/:slug/atom.xml", categoryFeed("atom"));
+router.get("/categories/:slug/feed.json", categoryFeed("json"));
+
+export default router;
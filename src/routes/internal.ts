@@ -0,0 +1,69 @@
+import { Router, Request, Response } from "express";
+import { asyncHandler } from "../middleware/errorHandler";
+import protectCron from "../middleware/protectCron";
+import { publishDuePosts } from "../utils/postScheduler";
+import { pruneViewVisitors } from "../utils/viewCounter";
+import { purgeTrashedPosts } from "../utils/postTrash";
+import { collectStorageGarbage } from "../utils/storageGc";
+
+const router = Router();
+
+// GET|POST /internal/publish-scheduled - Publish scheduled posts that are due
+// GET is what Vercel Cron calls, POST is for manual or external triggers
+const publishScheduled = asyncHandler(async (req: Request, res: Response) => {
+  const result = await publishDuePosts();
+
+  return res.status(200).json({
+    success: true,
+    message: `Published ${result.publishedCount} scheduled post(s)`,
+    data: result
+  });
+});
+
+router.get("/publish-scheduled", protectCron, publishScheduled);
+router.post("/publish-scheduled", protectCron, publishScheduled);
+
+// GET|POST /internal/prune-view-visitors - Drop view dedup rows older than the window
+const pruneVisitors = asyncHandler(async (req: Request, res: Response) => {
+  const result = await pruneViewVisitors();
+
+  return res.status(200).json({
+    success: true,
+    message: `Pruned ${result.prunedCount} view visitor record(s)`,
+    data: result
+  });
+});
+
+router.get("/prune-view-visitors", protectCron, pruneVisitors);
+router.post("/prune-view-visitors", protectCron, pruneVisitors);
+
+// GET|POST /internal/purge-trash - Permanently delete posts trashed longer than TRASH_RETENTION_DAYS
+const purgeTrash = asyncHandler(async (req: Request, res: Response) => {
+  const result = await purgeTrashedPosts();
+
+  return res.status(200).json({
+    success: true,
+    message: `Purged ${result.purgedCount} trashed post(s)`,
+    data: result
+  });
+});
+
+router.get("/purge-trash", protectCron, purgeTrash);
+router.post("/purge-trash", protectCron, purgeTrash);
+
+// GET|POST /internal/storage-gc - Delete stored files no post, profile or comment references
+// once they are older than ORPHAN_FILE_GRACE_DAYS
+const storageGc = asyncHandler(async (req: Request, res: Response) => {
+  const result = await collectStorageGarbage();
+
+  return res.status(200).json({
+    success: true,
+    message: `Deleted ${result.deletedCount} of ${result.orphanCount} orphaned file(s)`,
+    data: result
+  });
+});
+
+router.get("/storage-gc", protectCron, storageGc);
+router.post("/storage-gc", protectCron, storageGc);
+
+export default router;
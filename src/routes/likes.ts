@@ -5,6 +5,7 @@ import protectUser from "../middleware/protectUser";
 import { createSupabaseRlsHelper } from "../utils/supabaseRls";
 import { getSupabase } from "../utils/supabase";
 import { createNotification, getPostAuthorId } from "../utils/notificationHelper";
+import { isPostActive } from "../utils/postTrash";
 
 const router = Router();
 
@@ -26,8 +27,8 @@ router.post("/:postId", protectUser, asyncHandler(async (req: Request, res: Resp
   const supabaseRls = createSupabaseRlsHelper(accessToken);
 
   try {
-    // Check if post exists
-    const post = await supabaseRls.select("blog_posts", "id, likes", { id: postId });
+    // Check if post exists (trashed posts cannot be liked)
+    const post = await supabaseRls.select("blog_posts", "id, likes", { id: postId, deleted_at: null });
     if (!post || post.length === 0) {
       throw new NotFoundError("Post", postId);
     }
@@ -189,6 +190,11 @@ router.get("/:postId/public", asyncHandler(async (req: Request, res: Response) =
   const supabase = getSupabase();
 
   try {
+    // Likes of trashed posts stay hidden until the post is restored
+    if (!(await isPostActive(postId))) {
+      throw new NotFoundError("Post", postId);
+    }
+
     // Get total like count
     const { data: totalLikes, error } = await supabase
       .from("post_likes")
@@ -209,6 +215,9 @@ router.get("/:postId/public", asyncHandler(async (req: Request, res: Response) =
       }
     });
   } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
     console.error("Error getting public like count:", error);
     throw new DatabaseError("Failed to get like count");
   }
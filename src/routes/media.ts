@@ -0,0 +1,224 @@
+import { Router, Request, Response } from "express";
+import { asyncHandler } from "../middleware/errorHandler";
+import { ConflictError, DatabaseError, NotFoundError, ValidationError } from "../utils/errors";
+import protectAdmin from "../middleware/protectAdmin";
+import { createSupabaseRlsHelper } from "../utils/supabaseRls";
+import { getSupabaseAdmin } from "../utils/supabase";
+import { findMediaReferences, findPostsUsingMedia } from "../utils/mediaLibrary";
+import { uploadConfig } from "../utils/config";
+import { collectStorageGarbage } from "../utils/storageGc";
+import { getPublicPath, getStorage } from "../utils/storage";
+
+const router = Router();
+
+// Buckets that uploads are recorded from
+const MEDIA_BUCKETS = Object.keys(uploadConfig.maxFileSizeMb);
+
+// Columns returned for media items
+const MEDIA_COLUMNS = `
+  *,
+  uploader:users!uploaded_by(id, name, username)
+`;
+
+// Validate an optional alt text or caption from the request body
+const parseMediaText = (value: unknown, field: string) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value !== null && typeof value !== "string") {
+    throw new ValidationError(`${field} must be a string`);
+  }
+  if (typeof value === "string" && value.trim().length > 500) {
+    throw new ValidationError(`${field} must be less than 500 characters`);
+  }
+  return value?.trim() || null;
+};
+
+// GET /media - Uploaded files, newest first (admin only)
+// ?q= searches file names, alt text and captions, ?bucket= limits to one bucket
+router.get("/", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const keyword = typeof req.query.q === "string" ? req.query.q.replace(/[%\\"]/g, " ").trim() : "";
+  const bucket = req.query.bucket as string || "";
+  const page = Number(req.query.page) || 1;
+  const limit = Number(req.query.limit) || 20;
+  const accessToken = (req as any).accessToken;
+
+  if (bucket && !MEDIA_BUCKETS.includes(bucket)) {
+    throw new ValidationError(`Bucket must be one of: ${MEDIA_BUCKETS.join(", ")}`);
+  }
+
+  const safePage = Math.max(1, page);
+  const safeLimit = Math.max(1, Math.min(100, limit));
+  const offset = (safePage - 1) * safeLimit;
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    let query = supabaseRls.supabase
+      .from("media")
+      .select(MEDIA_COLUMNS, { count: "exact" })
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(offset, offset + safeLimit - 1);
+
+    if (bucket) {
+      query = query.eq("bucket", bucket);
+    }
+    if (keyword) {
+      const pattern = `"%${keyword}%"`;
+      query = query.or(
+        `file_name.ilike.${pattern},original_name.ilike.${pattern},alt_text.ilike.${pattern},caption.ilike.${pattern}`
+      );
+    }
+
+    const { data, count, error } = await query;
+    if (error) {
+      throw new DatabaseError(`Failed to fetch media: ${error.message}`);
+    }
+
+    const totalItems = count || 0;
+    const totalPages = Math.ceil(totalItems / safeLimit);
+
+    return res.status(200).json({
+      success: true,
+      data: data || [],
+      pagination: {
+        currentPage: safePage,
+        totalPages,
+        totalItems,
+        itemsPerPage: safeLimit,
+        hasNextPage: safePage < totalPages,
+        hasPrevPage: safePage > 1
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching media:", error);
+    throw new DatabaseError("Failed to fetch media");
+  }
+}));
+
+// POST /media/gc - Run storage garbage collection now and return the orphan report (admin only)
+// ?dryRun=true only reports; otherwise orphans older than the grace period are deleted
+router.post("/gc", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const dryRun = req.query.dryRun === "true" || req.query.dryRun === "1";
+
+  try {
+    const result = await collectStorageGarbage({ dryRun });
+
+    return res.status(200).json({
+      success: true,
+      message: dryRun
+        ? `Found ${result.orphanCount} orphaned file(s)`
+        : `Deleted ${result.deletedCount} of ${result.orphanCount} orphaned file(s)`,
+      data: result
+    });
+  } catch (error) {
+    console.error("Error collecting storage garbage:", error);
+    throw new DatabaseError("Failed to clean up storage");
+  }
+}));
+
+// PATCH /media/:mediaId - Update the alt text and/or caption of a file (admin only)
+router.patch("/:mediaId", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const mediaId = req.params.mediaId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate mediaId parameter
+  if (!mediaId || isNaN(Number(mediaId))) {
+    throw new ValidationError("Invalid media ID");
+  }
+
+  const altText = parseMediaText(req.body?.altText, "altText");
+  const caption = parseMediaText(req.body?.caption, "caption");
+  if (altText === undefined && caption === undefined) {
+    throw new ValidationError("altText or caption is required");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const existingMedia = await supabaseRls.select("media", "id", { id: mediaId });
+    if (!existingMedia || existingMedia.length === 0) {
+      throw new NotFoundError("Media", mediaId);
+    }
+
+    const result = await supabaseRls.update("media", {
+      ...(altText !== undefined && { alt_text: altText }),
+      ...(caption !== undefined && { caption }),
+      updated_at: new Date()
+    }, { id: mediaId });
+
+    return res.status(200).json({
+      success: true,
+      message: "Updated media successfully",
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to update media");
+  }
+}));
+
+// DELETE /media/:mediaId - Delete a file from storage and the library (admin only)
+// Files still used anywhere (posts incl. trash, revisions, profile pictures, comments) are refused with a 409
+router.delete("/:mediaId", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const mediaId = req.params.mediaId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate mediaId parameter
+  if (!mediaId || isNaN(Number(mediaId))) {
+    throw new ValidationError("Invalid media ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const existingMedia = await supabaseRls.select("media", "id, bucket, path, variants", { id: mediaId });
+    if (!existingMedia || existingMedia.length === 0) {
+      throw new NotFoundError("Media", mediaId);
+    }
+
+    const media = existingMedia[0] as any;
+
+    const variants = Object.values(media.variants || {}) as any[];
+    const storage = getStorage(supabaseRls.supabase);
+    const filePaths = [media.path, ...variants.map((variant) => variant.path)];
+    const publicPaths = filePaths.map((filePath) => getPublicPath(storage, media.bucket, filePath));
+
+    // Same sources and matching as storage garbage collection; admin client so drafts,
+    // trashed posts and other users' rows are checked too
+    const references = await findMediaReferences(getSupabaseAdmin(), publicPaths);
+    if (references.length > 0) {
+      const posts = references.some((reference) => reference.table === "blog_posts")
+        ? await findPostsUsingMedia(getSupabaseAdmin(), publicPaths)
+        : [];
+      throw new ConflictError("Media is still in use", { posts, references });
+    }
+
+    const result = await supabaseRls.delete("media", { id: mediaId });
+
+    // Row first: files left behind by a failed removal are unreferenced,
+    // so storage garbage collection deletes them later. Variants go with the original.
+    try {
+      await storage.delete(media.bucket, filePaths);
+    } catch (error) {
+      console.error("Error deleting media files, left for storage cleanup:", error);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Deleted media successfully",
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ConflictError) {
+      throw error;
+    }
+    console.error("Error deleting media:", error);
+    throw new DatabaseError("Failed to delete media");
+  }
+}));
+
+export default router;
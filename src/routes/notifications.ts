@@ -3,10 +3,15 @@ import { asyncHandler } from "../middleware/errorHandler";
 import { DatabaseError, NotFoundError, ValidationError } from "../utils/errors";
 import protectAdmin from "../middleware/protectAdmin";
 import { getSupabaseAdmin } from "../utils/supabase";
+import { applyCursor, buildNextCursor, decodeCursor, encodeCursor } from "../utils/cursorPagination";
 
 const router = Router();
 
+// Notifications are always listed newest first
+const NOTIFICATION_CURSOR_SORT = "newest";
+
 // GET /notifications - Get all notifications for admin
+// ?after=<nextCursor> switches to cursor pagination (an empty ?after= starts at the top)
 router.get("/", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
   const page = Number(req.query.page) || 1;
   const limit = Number(req.query.limit) || 10;
@@ -17,14 +22,19 @@ router.get("/", protectAdmin, asyncHandler(async (req: Request, res: Response) =
   const safeLimit = Math.max(1, Math.min(100, limit));
   const offset = (safePage - 1) * safeLimit;
 
+  const cursorMode = req.query.after !== undefined;
+  const cursor = req.query.after ? decodeCursor(String(req.query.after), NOTIFICATION_CURSOR_SORT) : null;
+
   try {
-    // Get total count first
-    const { count: totalCount } = await supabaseAdmin
-      .from('notifications')
-      .select('*', { count: 'exact', head: true });
+    // Get total count first (cursor mode reads one extra row instead)
+    const { count: totalCount } = cursorMode
+      ? { count: null }
+      : await supabaseAdmin
+        .from('notifications')
+        .select('*', { count: 'exact', head: true });
 
     // Get paginated notifications
-    const { data: notifications, error } = await supabaseAdmin
+    let notificationsQuery = supabaseAdmin
       .from('notifications')
       .select(`
         id,
@@ -58,15 +68,35 @@ router.get("/", protectAdmin, asyncHandler(async (req: Request, res: Response) =
             slug
           )
         )
-      `)
+      `);
+
+    if (cursor) {
+      notificationsQuery = applyCursor(notificationsQuery, 'created_at', false, cursor);
+    }
+
+    notificationsQuery = notificationsQuery
       .order('created_at', { ascending: false })
-      .range(offset, offset + safeLimit - 1);
+      .order('id', { ascending: false });
+
+    const { data, error } = cursorMode
+      ? await notificationsQuery.limit(safeLimit + 1)
+      : await notificationsQuery.range(offset, offset + safeLimit - 1);
 
     if (error) {
       console.error('Error fetching notifications:', error);
       throw new DatabaseError('Failed to fetch notifications');
     }
 
+    let notifications = data;
+    let nextCursor: string | null = null;
+
+    if (cursorMode) {
+      ({ items: notifications, nextCursor } = buildNextCursor(data || [], safeLimit, NOTIFICATION_CURSOR_SORT, 'created_at'));
+    } else if (data && data.length > 0 && offset + data.length < (totalCount || 0)) {
+      const last = data[data.length - 1];
+      nextCursor = encodeCursor(NOTIFICATION_CURSOR_SORT, last.created_at, last.id);
+    }
+
     // Transform the data
     const transformedNotifications = notifications?.map((notification: any) => {
       const user = notification.users;
@@ -100,6 +130,19 @@ router.get("/", protectAdmin, asyncHandler(async (req: Request, res: Response) =
       };
     }) || [];
 
+    if (cursorMode) {
+      res.json({
+        success: true,
+        data: transformedNotifications,
+        pagination: {
+          limit: safeLimit,
+          hasNextPage: nextCursor !== null,
+          nextCursor
+        }
+      });
+      return;
+    }
+
     const totalPages = Math.ceil((totalCount || 0) / safeLimit);
 
     res.json({
@@ -111,7 +154,8 @@ router.get("/", protectAdmin, asyncHandler(async (req: Request, res: Response) =
         totalNotifications: totalCount || 0,
         limit: safeLimit,
         hasNextPage: safePage < totalPages,
-        hasPrevPage: safePage > 1
+        hasPrevPage: safePage > 1,
+        nextCursor
       }
     });
 
@@ -1,49 +1,132 @@
 import { Router, Request, Response } from "express";
+import { SupabaseClient } from "@supabase/supabase-js";
 import multer from "multer";
 import { asyncHandler } from "../middleware/errorHandler";
-import { DatabaseError, NotFoundError, ValidationError } from "../utils/errors";
+import { AppError, ConflictError, DatabaseError, NotFoundError, ValidationError } from "../utils/errors";
 import protectAdmin from "../middleware/protectAdmin";
+import protectEditor from "../middleware/protectEditor";
+import protectPostOwner from "../middleware/protectPostOwner";
+import optionalUser from "../middleware/optionalUser";
 import validatePostData from "../middleware/postValidation";
 import { createSupabaseRlsHelper, createSupabaseAdminHelper } from "../utils/supabaseRls";
 import { getSupabase } from "../utils/supabase";
+import {
+  findRedirectSlug,
+  generateUniqueSlug,
+  isSlugConflict,
+  normalizeSlug,
+  resolveSlugForUpdate,
+  recordSlugRedirect,
+} from "../utils/slugHelper";
+import { resolvePublishedAt } from "../utils/postScheduler";
+import { diffRevisions, getLatestRevision } from "../utils/revisionHelper";
+import { renderMarkdown } from "../utils/markdownRenderer";
+import { applySearchHits, escapeLikePattern, normalizeSearchQuery, searchPosts } from "../utils/postSearch";
+import { findTagBySlug, resolvePostTags, setPostTags } from "../utils/tagHelper";
+import { parseCategoryFilter, resolveCategoryIds } from "../utils/categoryHelper";
+import { getViewerKey, recordPostView } from "../utils/viewCounter";
+import { getRelatedPosts } from "../utils/relatedPosts";
+import { getPurgeDate, getTrashRetentionDays } from "../utils/postTrash";
+import { exportPostsZip, importPosts, readImportFiles } from "../utils/postMarkdown";
+import {
+  createPreviewToken,
+  DEFAULT_PREVIEW_TTL_HOURS,
+  isPreviewTokenActive,
+  MAX_PREVIEW_TTL_HOURS,
+  verifyPreviewToken,
+} from "../utils/previewToken";
+import { buildSiteUrl, siteConfig } from "../utils/config";
+import { getSeriesContext } from "../utils/seriesHelper";
+import { imageUpload, uploadImage } from "../utils/imageUpload";
+import { formatPostETag, parseIfMatch } from "../utils/postVersion";
+import { applyCursor, buildNextCursor, decodeCursor, encodeCursor } from "../utils/cursorPagination";
 
 const router = Router();
 
-// Configure multer for file uploads
-const upload = multer({
+// Markdown import accepts a zip of .md files or a single .md file
+const importUpload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit (increased from 5MB)
+    fileSize: 20 * 1024 * 1024, // 20MB limit
   },
   fileFilter: (req, file, cb) => {
-    // Check if file is an image
-    if (file.mimetype.startsWith('image/')) {
+    if (/\.(zip|md|markdown)$/i.test(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed'));
+      cb(new Error('Only .zip or .md files are allowed'));
     }
   }
 });
 
+// Columns returned by the public post routes
+const PUBLIC_POST_COLUMNS = `
+  *,
+  categories(name),
+  post_status(name),
+  users!author_id(name, username, profile_pic, introduction),
+  last_editor:users!last_edited_by(name, username, profile_pic),
+  tags(id, name, slug)
+`;
+
+// Sort options for GET /posts (the default keeps the original most-liked ordering)
+const POST_SORT_OPTIONS: Record<string, { column: string; ascending: boolean }> = {
+  newest: { column: "published_at", ascending: false },
+  oldest: { column: "published_at", ascending: true },
+  most_liked: { column: "likes", ascending: false },
+  most_viewed: { column: "views", ascending: false },
+  most_commented: { column: "comments_count", ascending: false },
+};
+const DEFAULT_POST_SORT = "most_liked";
+
+// Actions accepted by POST /posts/admin/bulk
+const BULK_POST_ACTIONS = ["publish", "unpublish", "move", "delete"];
+const MAX_BULK_POSTS = 100;
+
+// Fetch published posts by id for the search results (order is restored by applySearchHits)
+const fetchPublicPostsByIds = async (supabase: SupabaseClient, ids: number[]) => {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("blog_posts")
+    .select(PUBLIC_POST_COLUMNS)
+    .in("id", ids)
+    .eq("status_id", 1)
+    .is("deleted_at", null);
+
+  if (error) {
+    throw new DatabaseError(`Failed to fetch posts: ${error.message}`);
+  }
+
+  return (data || []) as any[];
+};
+
+// Posts saved before server-side rendering have no stored HTML yet, so render them on the fly
+const withRenderedContent = (post: any) => {
+  if (post.content_html) {
+    return post;
+  }
+  return { ...post, ...renderMarkdown(post.content || "") };
+};
+
+// Another save took the same free slug between the uniqueness check and the write
+const slugConflict = () => new ConflictError("Another post took this slug at the same time, save again to get a new one");
+
 // POST /posts - Create a new post
-router.post("/", protectAdmin, validatePostData, asyncHandler(async (req: Request, res: Response) => {
+router.post("/", protectEditor, validatePostData, asyncHandler(async (req: Request, res: Response) => {
   const newPost = req.body;
   const accessToken = (req as any).accessToken;
   
   const supabaseRls = createSupabaseRlsHelper(accessToken);
 
   try {
-    // Generate slug from title
-    const generateSlug = (title: string) => {
-      return title
-        .toLowerCase()
-        .replace(/[^a-z0-9 -]/g, '') // Remove special characters
-        .replace(/\s+/g, '-') // Replace spaces with hyphens
-        .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-        .trim();
-    };
+    // Unknown tag ids and clashing names are rejected before anything is written
+    const tags = Array.isArray(newPost.tags) ? await resolvePostTags(supabaseRls.supabase, newPost.tags) : undefined;
 
-    const slug = generateSlug(newPost.title);
+    // Generate a unique slug from title
+    const slug = await generateUniqueSlug(newPost.title);
+    const publishedAt = resolvePublishedAt(Number(newPost.status_id), newPost.published_at);
 
     console.log("Creating post with data:", {
       title: newPost.title,
@@ -54,7 +137,7 @@ router.post("/", protectAdmin, validatePostData, asyncHandler(async (req: Reques
       description: newPost.description,
       content: newPost.content,
       status_id: Number(newPost.status_id),
-      published_at: Number(newPost.status_id) === 1 ? new Date() : null,
+      published_at: publishedAt,
     });
 
     const result = await supabaseRls.insert("blog_posts", {
@@ -66,10 +149,16 @@ router.post("/", protectAdmin, validatePostData, asyncHandler(async (req: Reques
       description: newPost.description,
       content: newPost.content,
       status_id: Number(newPost.status_id), // Convert string to number
-      published_at: Number(newPost.status_id) === 1 ? new Date() : null, // Set published_at if published
+      published_at: publishedAt, // Now when published, the requested date when scheduled
+      ...renderMarkdown(newPost.content), // Stored HTML, table of contents and reading time
       // likes and views will use database defaults (0)
     });
 
+    // New tags are only created once the post is saved
+    if (tags) {
+      await setPostTags(supabaseRls.supabase, result.id, tags);
+    }
+
     return res.status(201).json({ 
       success: true,
       message: "Created post successfully",
@@ -77,51 +166,113 @@ router.post("/", protectAdmin, validatePostData, asyncHandler(async (req: Reques
     });
   } catch (error) {
     console.error("Error creating post:", error);
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    if (isSlugConflict(error)) {
+      throw slugConflict();
+    }
     throw new DatabaseError(`Failed to create post: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }));
 
 // PUT /posts/:postId - Update an existing post
-router.put("/:postId", protectAdmin, validatePostData, asyncHandler(async (req: Request, res: Response) => {
+// Requires If-Match with the ETag from GET /posts/admin/:postId; a stale version gets a 409
+router.put("/:postId", protectEditor, protectPostOwner, validatePostData, asyncHandler(async (req: Request, res: Response) => {
   const postId = req.params.postId;
   const updatedPost = req.body;
   const accessToken = (req as any).accessToken;
-  
+
+  // Validate postId parameter
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+
+  const expectedVersion = parseIfMatch(req.get("If-Match"));
   const supabaseRls = createSupabaseRlsHelper(accessToken);
 
+  // Someone else saved the post since the client loaded it
+  const staleVersion = (currentVersion: number) => new ConflictError(
+    "Post has been modified by someone else, reload it before saving",
+    { currentVersion, etag: formatPostETag(currentVersion) }
+  );
+
   try {
-    // Generate slug from title
-    const generateSlug = (title: string) => {
-      return title
-        .toLowerCase()
-        .replace(/[^a-z0-9 -]/g, '') // Remove special characters
-        .replace(/\s+/g, '-') // Replace spaces with hyphens
-        .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-        .trim();
-    };
+    // Trashed posts have to be restored before they can be edited
+    const existingPosts = await supabaseRls.select("blog_posts", "id, slug, title, status_id, published_at, version", { id: postId, deleted_at: null });
+    if (!existingPosts || existingPosts.length === 0) {
+      throw new NotFoundError("Post", postId);
+    }
 
-    const slug = generateSlug(updatedPost.title);
+    const currentVersion = (existingPosts[0] as any).version;
+    if (currentVersion !== expectedVersion) {
+      throw staleVersion(currentVersion);
+    }
 
-    const result = await supabaseRls.update("blog_posts", {
-      title: updatedPost.title,
-      slug: slug, // Add slug field
-      image: updatedPost.image,
-      category_id: Number(updatedPost.category_id), // Convert string to number
-      description: updatedPost.description,
-      content: updatedPost.content,
-      status_id: Number(updatedPost.status_id), // Convert string to number
-      published_at: Number(updatedPost.status_id) === 1 ? new Date() : null,
-      last_edited_by: (req as any).user?.id, // Track who last edited the post
-      updated_at: new Date()
-    }, { id: postId });
+    // Unknown tag ids and clashing names are rejected before anything is written
+    const tags = Array.isArray(updatedPost.tags) ? await resolvePostTags(supabaseRls.supabase, updatedPost.tags) : undefined;
+
+    // Keep the current slug unless the title changed, then make sure the new one is unique
+    const currentSlug = (existingPosts[0] as any).slug;
+    const slug = await resolveSlugForUpdate(postId, updatedPost.title, existingPosts[0] as any);
+
+    // Keep the original published date when editing an already published post
+    const publishedAt = resolvePublishedAt(
+      Number(updatedPost.status_id),
+      updatedPost.published_at,
+      existingPosts[0] as any
+    );
 
+    // The version filter makes the check and the write atomic: a concurrent save matches no row
+    const { data: result, error: updateError } = await supabaseRls.supabase
+      .from("blog_posts")
+      .update({
+        title: updatedPost.title,
+        slug: slug, // Add slug field
+        image: updatedPost.image,
+        category_id: Number(updatedPost.category_id), // Convert string to number
+        description: updatedPost.description,
+        content: updatedPost.content,
+        status_id: Number(updatedPost.status_id), // Convert string to number
+        published_at: publishedAt,
+        ...renderMarkdown(updatedPost.content), // Re-render stored HTML for cheap public reads
+        last_edited_by: (req as any).user?.id, // Track who last edited the post
+        updated_at: new Date()
+      })
+      .eq("id", postId)
+      .eq("version", expectedVersion)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      if (isSlugConflict(updateError)) {
+        throw slugConflict();
+      }
+      throw new DatabaseError(`Failed to update post: ${updateError.message}`);
+    }
+    if (!result) {
+      const latest = await supabaseRls.select("blog_posts", "version", { id: postId });
+      throw staleVersion((latest?.[0] as any)?.version ?? currentVersion);
+    }
+
+    // Old links keep working through a redirect to the new slug
+    if (currentSlug && currentSlug !== slug) {
+      await recordSlugRedirect(supabaseRls.supabase, postId, currentSlug, slug);
+    }
+
+    // Tags are only replaced when the request sends them
+    if (tags) {
+      await setPostTags(supabaseRls.supabase, postId, tags);
+    }
+
+    res.set("ETag", formatPostETag(result.version));
     return res.status(200).json({ 
       success: true,
       message: "Updated post successfully",
       data: result
     });
   } catch (error) {
-    if (error instanceof NotFoundError) {
+    if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof ConflictError) {
       throw error;
     }
     throw new DatabaseError("Failed to update post");
@@ -129,9 +280,9 @@ router.put("/:postId", protectAdmin, validatePostData, asyncHandler(async (req:
 }));
 
 // GET /posts/admin - Get all posts for admin (including drafts) - MUST BE BEFORE /:postId
-router.get("/admin", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+router.get("/admin", protectEditor, asyncHandler(async (req: Request, res: Response) => {
   const category = req.query.category as string || "";
-  const keyword = req.query.keyword as string || "";
+  const keyword = normalizeSearchQuery(req.query.keyword);
   const status = req.query.status as string || "";
   const page = Number(req.query.page) || 1;
   const limit = Number(req.query.limit) || 10;
@@ -142,67 +293,102 @@ router.get("/admin", protectAdmin, asyncHandler(async (req: Request, res: Respon
   const offset = (safePage - 1) * safeLimit;
 
   const supabaseRls = createSupabaseRlsHelper(accessToken);
+  const statusIds: Record<string, number> = { published: 1, draft: 2, scheduled: 3 };
+  const statusId = statusIds[status.toLowerCase()];
+  // Editors only see the posts they wrote
+  const user = (req as any).user;
+  const authorId = user.role === "editor" ? user.id : undefined;
+  const adminColumns = `
+    id,
+    title,
+    description,
+    content,
+    status_id,
+    is_featured,
+    featured_until,
+    pinned_position,
+    categories(name),
+    post_status(name),
+    tags(id, name, slug),
+    created_at,
+    updated_at
+  `;
 
   try {
-    // Get total count first
-    const allPosts = await supabaseRls.select("blog_posts", `
-      id,
-      title,
-      description,
-      content,
-      status_id,
-      categories(name),
-      post_status(name),
-      created_at,
-      updated_at
-    `, {}, {
-      orderBy: "created_at:desc"
-    });
-
-    // Apply filters
-    let filteredPosts = allPosts;
-    if (status) {
-      if (status.toLowerCase() === 'published') {
-        filteredPosts = allPosts.filter((post: any) => post.status_id === 1);
-      } else if (status.toLowerCase() === 'draft') {
-        filteredPosts = allPosts.filter((post: any) => post.status_id === 2);
-      }
+    // Category filter matches category names, resolved to ids so it runs in the query
+    let categoryIds: number[] | undefined;
+    if (category) {
+      const categories = await supabaseRls.select("categories", "id", { name: `%${escapeLikePattern(category)}%` });
+      categoryIds = (categories || []).map((row: any) => row.id);
     }
 
-    if (keyword) {
-      filteredPosts = filteredPosts.filter((post: any) => 
-        post.title.toLowerCase().includes(keyword.toLowerCase()) ||
-        post.description.toLowerCase().includes(keyword.toLowerCase()) ||
-        post.content.toLowerCase().includes(keyword.toLowerCase())
-      );
+    let posts: any[] = [];
+    let totalPosts = 0;
+
+    if (categoryIds && categoryIds.length === 0) {
+      // No category matches, so no post can match either
+    } else if (keyword) {
+      // Ranked full-text search, most relevant first
+      const { hits, total } = await searchPosts(supabaseRls.supabase, keyword, {
+        statusId,
+        categoryIds,
+        authorId,
+        limit: safeLimit,
+        offset
+      });
+
+      const matched = hits.length > 0
+        ? await supabaseRls.select("blog_posts", adminColumns, { id: hits.map((hit) => hit.id) })
+        : [];
+      posts = applySearchHits(matched as any[], hits);
+      totalPosts = total;
+    } else {
+      let query = supabaseRls.supabase
+        .from("blog_posts")
+        .select(adminColumns, { count: "exact" })
+        .is("deleted_at", null) // Trashed posts are listed by GET /posts/admin/trash
+        .order("created_at", { ascending: false })
+        .range(offset, offset + safeLimit - 1);
+
+      if (statusId) {
+        query = query.eq("status_id", statusId);
+      }
+      if (categoryIds) {
+        query = query.in("category_id", categoryIds);
+      }
+      if (authorId) {
+        query = query.eq("author_id", authorId);
+      }
+
+      const { data, count, error } = await query;
+      if (error) {
+        throw new DatabaseError(`Failed to fetch posts: ${error.message}`);
+      }
+
+      posts = data || [];
+      totalPosts = count || 0;
     }
 
     // Transform data
-    const transformedPosts = filteredPosts.map((post: any) => ({
+    const transformedPosts = posts.map((post: any) => ({
       id: post.id,
       title: post.title,
       description: post.description,
       content: post.content,
       category: post.categories?.name || 'Uncategorized',
-      status: post.post_status?.name?.toLowerCase() || 'unknown'
+      status: post.post_status?.name?.toLowerCase() || 'unknown',
+      tags: post.tags || [],
+      isFeatured: post.is_featured,
+      featuredUntil: post.featured_until,
+      pinnedPosition: post.pinned_position,
+      ...(post.search && { search: post.search })
     }));
 
-    // Filter by category
-    let finalPosts = transformedPosts;
-    if (category) {
-      finalPosts = transformedPosts.filter((post: any) => 
-        post.category.toLowerCase().includes(category.toLowerCase())
-      );
-    }
-
-    // Apply pagination
-    const totalPosts = finalPosts.length;
     const totalPages = Math.ceil(totalPosts / safeLimit);
-    const paginatedPosts = finalPosts.slice(offset, offset + safeLimit);
 
     return res.status(200).json({
       success: true,
-      posts: paginatedPosts,
+      posts: transformedPosts,
       pagination: {
         currentPage: safePage,
         totalPages: totalPages,
@@ -225,17 +411,28 @@ router.get("/stats", protectAdmin, asyncHandler(async (req: Request, res: Respon
 
   try {
     // Get total posts count
-    const totalPosts = await supabaseRls.select("blog_posts", "id");
+    const totalPosts = await supabaseRls.select("blog_posts", "id", { deleted_at: null });
     const totalPostsCount = totalPosts ? totalPosts.length : 0;
 
     // Get published posts count
-    const publishedPosts = await supabaseRls.select("blog_posts", "id", { status_id: 1 });
+    const publishedPosts = await supabaseRls.select("blog_posts", "id", { status_id: 1, deleted_at: null });
     const publishedPostsCount = publishedPosts ? publishedPosts.length : 0;
 
     // Get draft posts count
-    const draftPosts = await supabaseRls.select("blog_posts", "id", { status_id: 2 });
+    const draftPosts = await supabaseRls.select("blog_posts", "id", { status_id: 2, deleted_at: null });
     const draftPostsCount = draftPosts ? draftPosts.length : 0;
 
+    // Get scheduled posts count
+    const scheduledPosts = await supabaseRls.select("blog_posts", "id", { status_id: 3, deleted_at: null });
+    const scheduledPostsCount = scheduledPosts ? scheduledPosts.length : 0;
+
+    // Get trashed posts count
+    const trashedPosts = await supabaseRls.supabase
+      .from("blog_posts")
+      .select("id", { count: "exact", head: true })
+      .not("deleted_at", "is", null);
+    const trashedPostsCount = trashedPosts.count || 0;
+
     // Get total categories count
     const totalCategories = await supabaseRls.select("categories", "id");
     const totalCategoriesCount = totalCategories ? totalCategories.length : 0;
@@ -255,6 +452,8 @@ router.get("/stats", protectAdmin, asyncHandler(async (req: Request, res: Respon
         totalPosts: totalPostsCount,
         publishedPosts: publishedPostsCount,
         draftPosts: draftPostsCount,
+        scheduledPosts: scheduledPostsCount,
+        trashedPosts: trashedPostsCount,
         totalCategories: totalCategoriesCount,
         totalUsers: totalUsersCount,
         totalComments: totalCommentsCount
@@ -267,7 +466,7 @@ router.get("/stats", protectAdmin, asyncHandler(async (req: Request, res: Respon
 }));
 
 // POST /posts/upload-image - Upload image directly
-router.post("/upload-image", protectAdmin, upload.single('image'), asyncHandler(async (req: Request, res: Response) => {
+router.post("/upload-image", protectEditor, imageUpload("post-images"), asyncHandler(async (req: Request, res: Response) => {
     const accessToken = (req as any).accessToken;
     const file = req.file;
 
@@ -277,193 +476,327 @@ router.post("/upload-image", protectAdmin, upload.single('image'), asyncHandler(
 
     try {
         const supabaseRls = createSupabaseRlsHelper(accessToken);
-        const bucketName = "post-images";
-        const fileName = `post-${Date.now()}-${file.originalname}`;
-        const filePath = `public/${fileName}`;
-
-        // Upload file to Supabase Storage
-        const { data, error } = await supabaseRls.supabase.storage
-            .from(bucketName)
-            .upload(filePath, file.buffer, {
-                contentType: file.mimetype,
-                upsert: false
-            });
-
-        if (error) {
-            throw new DatabaseError(`Failed to upload image: ${error.message}`);
-        }
-
-        // Get public URL
-        const { data: publicURLData } = supabaseRls.supabase.storage
-            .from(bucketName)
-            .getPublicUrl(filePath);
+        const uploaded = await uploadImage(supabaseRls.supabase, "post-images", file, (req as any).user?.id);
 
         return res.status(200).json({ 
             success: true, 
-            imageUrl: publicURLData.publicUrl,
-            fileName: fileName
+            ...uploaded
         });
 
     } catch (error) {
-        if (error instanceof DatabaseError) {
+        if (error instanceof DatabaseError || error instanceof ValidationError) {
             throw error;
         }
         throw new DatabaseError("Failed to upload image.");
     }
 }));
 
-// GET /posts/admin/:postId - Get a specific post for admin (including drafts)
-router.get("/admin/:postId", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
-  const postIdFromClient = req.params.postId;
-  const accessToken = (req as any).accessToken;
+// POST /posts/admin/bulk - Publish, unpublish, move or delete (trash) many posts at once.
+// Runs in one transaction: if any post is missing, none of them are changed.
+router.post("/admin/bulk", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const { ids, action, categoryId } = req.body;
+  const user = (req as any).user;
 
-  // Validate postId parameter
-  if (!postIdFromClient || isNaN(Number(postIdFromClient))) {
-    throw new ValidationError("Invalid post ID");
+  if (!Array.isArray(ids) || ids.length === 0) {
+    throw new ValidationError("ids must be a non-empty array of post IDs");
+  }
+  if (ids.length > MAX_BULK_POSTS) {
+    throw new ValidationError(`At most ${MAX_BULK_POSTS} posts can be changed at once`);
+  }
+  if (!ids.every((id: any) => Number.isInteger(Number(id)) && Number(id) > 0)) {
+    throw new ValidationError("Invalid post ID in ids");
+  }
+  if (!BULK_POST_ACTIONS.includes(action)) {
+    throw new ValidationError(`action must be one of: ${BULK_POST_ACTIONS.join(", ")}`);
+  }
+  if (action === "move" && (!Number.isInteger(Number(categoryId)) || Number(categoryId) <= 0)) {
+    throw new ValidationError("categoryId is required to move posts");
   }
 
-  const supabaseRls = createSupabaseRlsHelper(accessToken);
-  
+  const postIds: number[] = Array.from(new Set(ids.map(Number)));
+  const supabaseAdmin = createSupabaseAdminHelper();
+
   try {
-    const posts = await supabaseRls.select("blog_posts", `
-      *,
-      categories(id, name),
-      post_status(id, name)
-    `, { id: postIdFromClient });
+    if (action === "move") {
+      const categories = await supabaseAdmin.select("categories", "id", { id: Number(categoryId) });
+      if (!categories || categories.length === 0) {
+        throw new NotFoundError("Category", categoryId);
+      }
+    }
 
-    if (!posts || posts.length === 0) {
-      throw new NotFoundError("Post", postIdFromClient);
+    const results = await supabaseAdmin.rpc("bulk_post_action", {
+      p_post_ids: postIds,
+      p_action: action,
+      p_editor_id: user.id,
+      p_category_id: action === "move" ? Number(categoryId) : null,
+    }) as { post_id: number; success: boolean; error: string | null }[];
+
+    const failed = results.filter((result) => !result.success);
+
+    if (failed.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: "No posts were changed because some posts could not be found",
+        data: { action, results },
+      });
     }
 
     return res.status(200).json({
       success: true,
-      data: posts[0],
+      message: `Applied ${action} to ${results.length} post(s)`,
+      data: { action, results },
     });
   } catch (error) {
     if (error instanceof NotFoundError) {
       throw error;
     }
-    throw new DatabaseError("Failed to fetch post");
+    console.error("Error running bulk post action:", error);
+    throw new DatabaseError("Failed to run bulk post action");
   }
 }));
 
-// GET /posts - Get all posts with pagination and filtering
-router.get("/", asyncHandler(async (req: Request, res: Response) => {
-  const category = req.query.category as string || "";
-  const keyword = req.query.keyword as string || "";
+// GET /posts/admin/export?status=published - Download posts as a zip of Markdown files with YAML front matter
+router.get("/admin/export", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const status = req.query.status as string || "";
+  const accessToken = (req as any).accessToken;
+
+  const statusIds: Record<string, number> = { published: 1, draft: 2, scheduled: 3 };
+  const statusId = statusIds[status.toLowerCase()];
+  if (status && !statusId) {
+    throw new ValidationError("Status must be one of: published, draft, scheduled");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const { zip, count } = await exportPostsZip(supabaseRls.supabase, statusId);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.set({
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="posts-${date}.zip"`,
+      "X-Post-Count": String(count),
+    });
+    return res.status(200).send(zip);
+  } catch (error) {
+    console.error("Error exporting posts:", error);
+    throw new DatabaseError("Failed to export posts");
+  }
+}));
+
+// POST /posts/admin/import?dryRun=true - Create or update posts from Markdown files (field "file").
+// Posts are matched by the slug in the front matter; a dry run only reports what would change.
+router.post("/admin/import", protectAdmin, importUpload.single("file"), asyncHandler(async (req: Request, res: Response) => {
+  const accessToken = (req as any).accessToken;
+  const dryRun = req.query.dryRun === "true" || req.query.dryRun === "1";
+  const file = req.file;
+
+  if (!file) {
+    throw new ValidationError("No file provided");
+  }
+
+  const files = await readImportFiles(file.originalname, file.buffer);
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const results = await importPosts(supabaseRls.supabase, files, {
+      dryRun,
+      editorId: (req as any).user?.id,
+    });
+
+    const summary = {
+      total: results.length,
+      created: results.filter((result) => result.action === "create").length,
+      updated: results.filter((result) => result.action === "update").length,
+      failed: results.filter((result) => result.action === "error").length,
+    };
+
+    return res.status(200).json({
+      success: summary.failed === 0,
+      message: dryRun
+        ? `Dry run: ${summary.created} post(s) would be created, ${summary.updated} updated, ${summary.failed} with errors`
+        : `Imported ${summary.created + summary.updated} post(s), ${summary.failed} with errors`,
+      data: { dryRun, summary, results }
+    });
+  } catch (error) {
+    console.error("Error importing posts:", error);
+    throw new DatabaseError("Failed to import posts");
+  }
+}));
+
+// GET /posts/admin/trash - List trashed posts, most recently deleted first
+router.get("/admin/trash", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
   const page = Number(req.query.page) || 1;
-  const limit = Number(req.query.limit) || 6;
+  const limit = Number(req.query.limit) || 10;
+  const accessToken = (req as any).accessToken;
 
   const safePage = Math.max(1, page);
   const safeLimit = Math.max(1, Math.min(100, limit));
   const offset = (safePage - 1) * safeLimit;
 
-  // ใช้ Supabase client สำหรับ public route (ไม่ต้องใช้ RLS เพราะเป็น public data)
-  const supabase = getSupabase();
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
 
   try {
-    // Query using likes column directly from blog_posts table
-    let supabaseQuery = supabase
+    const { data, count, error } = await supabaseRls.supabase
       .from("blog_posts")
       .select(`
-        *,
+        id,
+        title,
+        slug,
+        description,
+        status_id,
+        deleted_at,
         categories(name),
         post_status(name),
-        users!author_id(name, username, profile_pic, introduction),
-        last_editor:users!last_edited_by(name, username, profile_pic)
-      `)
-      .eq("status_id", 1) // Published posts (status_id = 1 for Published)
-      .order("likes", { ascending: false }) // เรียงตามจำนวน like จากมากไปน้อย
+        deleted_by_user:users!deleted_by(name, username)
+      `, { count: "exact" })
+      .not("deleted_at", "is", null)
+      .order("deleted_at", { ascending: false })
       .range(offset, offset + safeLimit - 1);
 
-    // Apply keyword search
-    if (keyword) {
-      supabaseQuery = supabaseQuery.or(`title.ilike.%${keyword}%,description.ilike.%${keyword}%,content.ilike.%${keyword}%`);
+    if (error) {
+      throw new DatabaseError(`Failed to fetch trashed posts: ${error.message}`);
     }
 
-    const { data: posts, error } = await supabaseQuery;
+    const totalPosts = count || 0;
+    const totalPages = Math.ceil(totalPosts / safeLimit);
+
+    return res.status(200).json({
+      success: true,
+      posts: (data || []).map((post: any) => ({ ...post, purge_at: getPurgeDate(post.deleted_at) })),
+      retentionDays: getTrashRetentionDays(),
+      pagination: {
+        currentPage: safePage,
+        totalPages: totalPages,
+        totalPosts: totalPosts,
+        limit: safeLimit,
+        hasNextPage: safePage < totalPages,
+        hasPrevPage: safePage > 1
+      }
+    });
+  } catch (error) {
+    console.error("Trash route error:", error);
+    throw new DatabaseError("Failed to fetch trashed posts");
+  }
+}));
+
+// POST /posts/admin/trash/:postId/restore - Move a post out of the trash
+router.post("/admin/trash/:postId/restore", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const postId = req.params.postId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate postId parameter
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const { data: post, error } = await supabaseRls.supabase
+      .from("blog_posts")
+      .update({ deleted_at: null, deleted_by: null })
+      .eq("id", postId)
+      .not("deleted_at", "is", null)
+      .select()
+      .maybeSingle();
 
     if (error) {
-      console.error("Supabase error:", error);
-      throw new DatabaseError(`Failed to fetch posts: ${error.message}`);
+      throw new DatabaseError(`Failed to restore post: ${error.message}`);
+    }
+    if (!post) {
+      throw new NotFoundError("Trashed post", postId);
     }
 
-    // Filter by category if needed (post-processing)
-    let filteredPosts = posts || [];
-    if (category) {
-      filteredPosts = filteredPosts.filter((post: any) => 
-        post.categories?.name?.toLowerCase().includes(category.toLowerCase())
-      );
+    return res.status(200).json({
+      success: true,
+      message: "Restored post successfully",
+      data: post
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
     }
+    throw new DatabaseError("Failed to restore post");
+  }
+}));
 
-    // Get total count
-    let countQuery = supabase
+// DELETE /posts/admin/trash/:postId - Permanently delete a trashed post with its comments and likes
+router.delete("/admin/trash/:postId", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const postId = req.params.postId;
+
+  // Validate postId parameter
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+
+  // Use Admin helper for delete operations (bypass RLS)
+  const supabaseAdmin = createSupabaseAdminHelper();
+
+  try {
+    const { data: trashed, error } = await supabaseAdmin.supabase
       .from("blog_posts")
-      .select("id", { count: "exact" })
-      .eq("status_id", 1);
+      .select("id")
+      .eq("id", postId)
+      .not("deleted_at", "is", null)
+      .maybeSingle();
 
-    if (keyword) {
-      countQuery = countQuery.or(`title.ilike.%${keyword}%,description.ilike.%${keyword}%,content.ilike.%${keyword}%`);
+    if (error) {
+      throw new DatabaseError(`Failed to fetch post: ${error.message}`);
     }
-
-    const { count, error: countError } = await countQuery;
-    if (countError) {
-      console.error("Count error:", countError);
-      throw new DatabaseError(`Failed to count posts: ${countError.message}`);
+    if (!trashed) {
+      throw new NotFoundError("Trashed post", postId);
     }
 
-    const totalPosts = count || 0;
-    const totalPages = Math.ceil(totalPosts / safeLimit);
+    // Delete related comments and post_likes first
+    await supabaseAdmin.delete("comments", { post_id: postId });
+    await supabaseAdmin.delete("post_likes", { post_id: postId });
+
+    const result = await supabaseAdmin.delete("blog_posts", { id: postId });
 
     return res.status(200).json({
       success: true,
-      totalPosts,
-      totalPages,
-      currentPage: safePage,
-      limit: safeLimit,
-      posts: filteredPosts,
-      nextPage: safePage < totalPages ? safePage + 1 : null,
-      previousPage: safePage > 1 ? safePage - 1 : null
+      message: "Permanently deleted post successfully",
+      data: result
     });
   } catch (error) {
-    console.error("Route error:", error);
-    throw new DatabaseError("Failed to fetch posts");
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    console.error("Error purging post:", error);
+    throw new DatabaseError("Failed to permanently delete post");
   }
 }));
 
-// GET /posts/:postId - Get a specific post by ID
-router.get("/:postId", asyncHandler(async (req: Request, res: Response) => {
+// GET /posts/admin/:postId - Get a specific post for admin (including drafts)
+router.get("/admin/:postId", protectEditor, protectPostOwner, asyncHandler(async (req: Request, res: Response) => {
   const postIdFromClient = req.params.postId;
+  const accessToken = (req as any).accessToken;
 
   // Validate postId parameter
   if (!postIdFromClient || isNaN(Number(postIdFromClient))) {
     throw new ValidationError("Invalid post ID");
   }
 
-  // ใช้ Supabase client สำหรับ public route (ไม่ต้องใช้ RLS เพราะเป็น public data)
-  const supabase = getSupabase();
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
   
   try {
-    const { data: post, error } = await supabase
-      .from("blog_posts")
-      .select(`
-        *,
-        categories(name),
-        post_status(name),
-        users!author_id(name, username, profile_pic, introduction),
-        last_editor:users!last_edited_by(name, username, profile_pic)
-      `)
-      .eq("id", postIdFromClient)
-      .eq("status_id", 1) // Only published posts
-      .single();
+    const posts = await supabaseRls.select("blog_posts", `
+      *,
+      categories(id, name),
+      post_status(id, name),
+      tags(id, name, slug)
+    `, { id: postIdFromClient });
 
-    if (error || !post) {
+    if (!posts || posts.length === 0) {
       throw new NotFoundError("Post", postIdFromClient);
     }
 
+    // Sent back as If-Match when saving, see PUT /posts/:postId
+    res.set("ETag", formatPostETag((posts[0] as any).version));
     return res.status(200).json({
       success: true,
-      data: post,
+      data: posts[0],
     });
   } catch (error) {
     if (error instanceof NotFoundError) {
@@ -473,76 +806,941 @@ router.get("/:postId", asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
-// PUT /posts/:postId - Update a specific post
-router.put("/:postId", protectAdmin, validatePostData, asyncHandler(async (req: Request, res: Response) => {
-  const postIdFromClient = req.params.postId;
-  const updatedPost = { ...req.body, date: new Date() };
+// POST /posts/admin/:postId/preview-tokens - Create a signed, expiring preview link for a post
+router.post("/admin/:postId/preview-tokens", protectEditor, protectPostOwner, asyncHandler(async (req: Request, res: Response) => {
+  const postId = req.params.postId;
+  const expiresInHours = req.body?.expiresInHours === undefined
+    ? DEFAULT_PREVIEW_TTL_HOURS
+    : Number(req.body.expiresInHours);
   const accessToken = (req as any).accessToken;
 
   // Validate postId parameter
-  if (!postIdFromClient || isNaN(Number(postIdFromClient))) {
+  if (!postId || isNaN(Number(postId))) {
     throw new ValidationError("Invalid post ID");
   }
+  if (!Number.isFinite(expiresInHours) || expiresInHours <= 0 || expiresInHours > MAX_PREVIEW_TTL_HOURS) {
+    throw new ValidationError(`expiresInHours must be between 0 and ${MAX_PREVIEW_TTL_HOURS}`);
+  }
 
   const supabaseRls = createSupabaseRlsHelper(accessToken);
 
   try {
-    const result = await supabaseRls.update(
-      "blog_posts",
-      {
-        title: updatedPost.title,
-        image: updatedPost.image,
-        category_id: updatedPost.category_id,
-        description: updatedPost.description,
-        content: updatedPost.content,
-        status_id: updatedPost.status_id,
-        published_at: updatedPost.status_id === 1 ? new Date() : null, // Set published_at if published
-        last_edited_by: (req as any).user?.id, // Track who last edited the post
-        updated_at: new Date(),
-      },
-      { id: postIdFromClient }
+    const posts = await supabaseRls.select("blog_posts", "id", { id: postId, deleted_at: null });
+    if (!posts || posts.length === 0) {
+      throw new NotFoundError("Post", postId);
+    }
+
+    const previewToken = await createPreviewToken(
+      supabaseRls.supabase,
+      Number(postId),
+      (req as any).user?.id,
+      expiresInHours
     );
 
-    return res.status(200).json({
+    return res.status(201).json({
       success: true,
-      message: "Updated post successfully",
-      data: result
+      message: "Created preview link successfully",
+      data: {
+        ...previewToken,
+        url: buildSiteUrl(siteConfig.previewPath, { token: previewToken.token, id: postId }),
+      }
     });
   } catch (error) {
-    throw new DatabaseError("Failed to update post");
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to create preview link");
   }
 }));
 
-
-// DELETE /posts/:postId - Delete a specific post
-router.delete("/:postId", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
-  const postIdFromClient = req.params.postId;
+// GET /posts/admin/:postId/preview-tokens - List preview links of a post, newest first
+router.get("/admin/:postId/preview-tokens", protectEditor, protectPostOwner, asyncHandler(async (req: Request, res: Response) => {
+  const postId = req.params.postId;
   const accessToken = (req as any).accessToken;
 
   // Validate postId parameter
-  if (!postIdFromClient || isNaN(Number(postIdFromClient))) {
+  if (!postId || isNaN(Number(postId))) {
     throw new ValidationError("Invalid post ID");
   }
 
-  // Use Admin helper for delete operations (bypass RLS)
-  const supabaseAdmin = createSupabaseAdminHelper();
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
 
   try {
-    // Delete related comments first
-    await supabaseAdmin.delete("comments", { post_id: postIdFromClient });
-    
-    // Delete related post_likes
-    await supabaseAdmin.delete("post_likes", { post_id: postIdFromClient });
-    
-    // Finally delete the post
-    const result = await supabaseAdmin.delete("blog_posts", { id: postIdFromClient });
+    const tokens = await supabaseRls.select(
+      "post_preview_tokens",
+      "id, post_id, expires_at, created_at, revoked_at, created_by_user:users!created_by(name, username)",
+      { post_id: postId },
+      { orderBy: "created_at:desc" }
+    );
 
+    const now = Date.now();
     return res.status(200).json({
       success: true,
-      message: "Deleted post successfully",
-      data: result
+      data: (tokens || []).map((token: any) => ({
+        ...token,
+        active: !token.revoked_at && Date.parse(token.expires_at) > now,
+      })),
     });
   } catch (error) {
+    throw new DatabaseError("Failed to fetch preview links");
+  }
+}));
+
+// DELETE /posts/admin/:postId/preview-tokens/:tokenId - Revoke a preview link
+router.delete("/admin/:postId/preview-tokens/:tokenId", protectEditor, protectPostOwner, asyncHandler(async (req: Request, res: Response) => {
+  const { postId, tokenId } = req.params;
+  const accessToken = (req as any).accessToken;
+
+  // Validate postId parameter
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const { data: token, error } = await supabaseRls.supabase
+      .from("post_preview_tokens")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", tokenId)
+      .eq("post_id", postId)
+      .is("revoked_at", null)
+      .select("id, post_id, expires_at, revoked_at")
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to revoke preview link: ${error.message}`);
+    }
+    if (!token) {
+      throw new NotFoundError("Preview link", tokenId);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Revoked preview link successfully",
+      data: token
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to revoke preview link");
+  }
+}));
+
+// PUT /posts/admin/:postId/feature - Feature or unfeature a post; featuredUntil (optional) ends the feature
+router.put("/admin/:postId/feature", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const postId = req.params.postId;
+  const { featured, featuredUntil } = req.body;
+  const accessToken = (req as any).accessToken;
+
+  // Validate postId parameter
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+  if (typeof featured !== "boolean") {
+    throw new ValidationError("featured must be true or false");
+  }
+  if (featuredUntil !== undefined && featuredUntil !== null) {
+    if (isNaN(Date.parse(featuredUntil))) {
+      throw new ValidationError("featuredUntil must be a valid date");
+    }
+    if (Date.parse(featuredUntil) <= Date.now()) {
+      throw new ValidationError("featuredUntil must be in the future");
+    }
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const existingPosts = await supabaseRls.select("blog_posts", "id", { id: postId, deleted_at: null });
+    if (!existingPosts || existingPosts.length === 0) {
+      throw new NotFoundError("Post", postId);
+    }
+
+    const result = await supabaseRls.update("blog_posts", {
+      is_featured: featured,
+      featured_until: featured && featuredUntil ? new Date(featuredUntil).toISOString() : null,
+    }, { id: postId });
+
+    return res.status(200).json({
+      success: true,
+      message: featured ? "Featured post successfully" : "Unfeatured post successfully",
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to update featured post");
+  }
+}));
+
+// PUT /posts/admin/:postId/pin - Pin a post at a position (1 = first), or unpin it with position null
+router.put("/admin/:postId/pin", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const postId = req.params.postId;
+  const { position } = req.body;
+  const accessToken = (req as any).accessToken;
+
+  // Validate postId parameter
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+  if (position !== null && (!Number.isInteger(position) || position < 1)) {
+    throw new ValidationError("position must be a positive integer, or null to unpin");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const existingPosts = await supabaseRls.select("blog_posts", "id", { id: postId, deleted_at: null });
+    if (!existingPosts || existingPosts.length === 0) {
+      throw new NotFoundError("Post", postId);
+    }
+
+    // Other pinned posts shift down to make room, then positions are renumbered 1..n
+    await supabaseRls.rpc("set_post_pin", { p_post_id: Number(postId), p_position: position });
+
+    const { data: pinned, error } = await supabaseRls.supabase
+      .from("blog_posts")
+      .select("id, title, slug, pinned_position")
+      .not("pinned_position", "is", null)
+      .order("pinned_position", { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(`Failed to fetch pinned posts: ${error.message}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: position === null ? "Unpinned post successfully" : "Pinned post successfully",
+      data: pinned || []
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to pin post");
+  }
+}));
+
+// GET /posts/admin/:postId/views?days=30 - Daily view counts for charts (missing days are 0)
+router.get("/admin/:postId/views", protectEditor, protectPostOwner, asyncHandler(async (req: Request, res: Response) => {
+  const postId = req.params.postId;
+  const days = Number(req.query.days) || 30;
+  const accessToken = (req as any).accessToken;
+
+  // Validate postId parameter
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+
+  const safeDays = Math.max(1, Math.min(365, days));
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - (safeDays - 1));
+    const sinceDay = since.toISOString().slice(0, 10);
+
+    const { data: rows, error } = await supabaseRls.supabase
+      .from("post_view_daily")
+      .select("day, views")
+      .eq("post_id", postId)
+      .gte("day", sinceDay)
+      .order("day", { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(`Failed to fetch post views: ${error.message}`);
+    }
+
+    const viewsByDay = new Map((rows || []).map((row: any) => [row.day, row.views]));
+    const series = Array.from({ length: safeDays }, (_, index) => {
+      const day = new Date(since);
+      day.setUTCDate(since.getUTCDate() + index);
+      const key = day.toISOString().slice(0, 10);
+      return { day: key, views: viewsByDay.get(key) || 0 };
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        days: series,
+        totalViews: series.reduce((sum, item) => sum + item.views, 0)
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching post views:", error);
+    throw new DatabaseError("Failed to fetch post views");
+  }
+}));
+
+// GET /posts/admin/:postId/revisions - List revisions of a post (newest first)
+router.get("/admin/:postId/revisions", protectEditor, protectPostOwner, asyncHandler(async (req: Request, res: Response) => {
+  const postId = req.params.postId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate postId parameter
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const revisions = await supabaseRls.select("post_revisions", `
+      id,
+      post_id,
+      revision_number,
+      title,
+      status_id,
+      created_at,
+      editor:users!edited_by(name, username, profile_pic)
+    `, { post_id: postId }, {
+      orderBy: "revision_number:desc"
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: revisions || [],
+    });
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    throw new DatabaseError("Failed to fetch revisions");
+  }
+}));
+
+// GET /posts/admin/:postId/revisions/diff?from=&to= - Diff two revisions (to defaults to the latest)
+router.get("/admin/:postId/revisions/diff", protectEditor, protectPostOwner, asyncHandler(async (req: Request, res: Response) => {
+  const postId = req.params.postId;
+  const fromId = typeof req.query.from === "string" ? req.query.from.trim() : "";
+  const toId = typeof req.query.to === "string" ? req.query.to.trim() : "";
+  const accessToken = (req as any).accessToken;
+  const isRevisionId = (value: string) => /^[1-9]\d*$/.test(value);
+
+  // Validate parameters
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+  if (!isRevisionId(fromId)) {
+    throw new ValidationError("Query parameter 'from' must be a revision ID");
+  }
+  if (req.query.to !== undefined && !isRevisionId(toId)) {
+    throw new ValidationError("Query parameter 'to' must be a revision ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const fromRevisions = await supabaseRls.select("post_revisions", "*", { id: fromId, post_id: postId });
+    if (!fromRevisions || fromRevisions.length === 0) {
+      throw new NotFoundError("Revision", fromId);
+    }
+
+    // Without ?to= the diff runs up to the latest revision, which always exists once `from` does
+    const to = toId
+      ? (await supabaseRls.select("post_revisions", "*", { id: toId, post_id: postId }))?.[0] as any
+      : await getLatestRevision(supabaseRls.supabase, postId);
+    if (!to) {
+      throw toId ? new NotFoundError("Revision", toId) : new NotFoundError("Revision");
+    }
+
+    const from = fromRevisions[0] as any;
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        from: { id: from.id, revision_number: from.revision_number, created_at: from.created_at },
+        to: { id: to.id, revision_number: to.revision_number, created_at: to.created_at },
+        ...diffRevisions(from, to),
+      },
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    console.error("Error diffing revisions:", error);
+    throw new DatabaseError("Failed to diff revisions");
+  }
+}));
+
+// GET /posts/admin/:postId/revisions/:revisionId - Get a single revision
+router.get("/admin/:postId/revisions/:revisionId", protectEditor, protectPostOwner, asyncHandler(async (req: Request, res: Response) => {
+  const { postId, revisionId } = req.params;
+  const accessToken = (req as any).accessToken;
+
+  // Validate parameters
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+  if (!revisionId || isNaN(Number(revisionId))) {
+    throw new ValidationError("Invalid revision ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const revisions = await supabaseRls.select("post_revisions", `
+      *,
+      editor:users!edited_by(name, username, profile_pic)
+    `, { id: revisionId, post_id: postId });
+
+    if (!revisions || revisions.length === 0) {
+      throw new NotFoundError("Revision", revisionId);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: revisions[0],
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to fetch revision");
+  }
+}));
+
+// POST /posts/admin/:postId/revisions/:revisionId/restore - Restore an old revision as the current content
+router.post("/admin/:postId/revisions/:revisionId/restore", protectEditor, protectPostOwner, asyncHandler(async (req: Request, res: Response) => {
+  const { postId, revisionId } = req.params;
+  const accessToken = (req as any).accessToken;
+  const userId = (req as any).user?.id;
+
+  // Validate parameters
+  if (!postId || isNaN(Number(postId))) {
+    throw new ValidationError("Invalid post ID");
+  }
+  if (!revisionId || isNaN(Number(revisionId))) {
+    throw new ValidationError("Invalid revision ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const existingPosts = await supabaseRls.select("blog_posts", "id, slug, title", { id: postId });
+    if (!existingPosts || existingPosts.length === 0) {
+      throw new NotFoundError("Post", postId);
+    }
+
+    const revisions = await supabaseRls.select("post_revisions", "*", { id: revisionId, post_id: postId });
+    if (!revisions || revisions.length === 0) {
+      throw new NotFoundError("Revision", revisionId);
+    }
+
+    const revision = revisions[0] as any;
+    const currentSlug = (existingPosts[0] as any).slug;
+    const slug = await resolveSlugForUpdate(postId, revision.title, existingPosts[0] as any);
+
+    // Only the content is restored; status and published date stay as they are now
+    const result = await supabaseRls.update("blog_posts", {
+      title: revision.title,
+      slug: slug,
+      image: revision.image,
+      category_id: revision.category_id,
+      description: revision.description,
+      content: revision.content,
+      ...renderMarkdown(revision.content || ""),
+      last_edited_by: userId,
+      updated_at: new Date()
+    }, { id: postId });
+
+    if (currentSlug && currentSlug !== slug) {
+      await recordSlugRedirect(supabaseRls.supabase, postId, currentSlug, slug);
+    }
+
+    // The restore itself becomes the newest revision (written by the blog_posts trigger)
+    const newRevision = await getLatestRevision(supabaseRls.supabase, postId);
+
+    return res.status(200).json({
+      success: true,
+      message: `Restored revision ${revision.revision_number} successfully`,
+      data: {
+        post: result,
+        revision: newRevision
+      }
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    if (isSlugConflict(error)) {
+      throw slugConflict();
+    }
+    console.error("Error restoring revision:", error);
+    throw new DatabaseError("Failed to restore revision");
+  }
+}));
+
+// GET /posts/search?q= - Full-text search over published posts, most relevant first
+router.get("/search", asyncHandler(async (req: Request, res: Response) => {
+  const keyword = normalizeSearchQuery(req.query.q ?? req.query.keyword);
+  const page = Number(req.query.page) || 1;
+  const limit = Number(req.query.limit) || 10;
+
+  if (!keyword) {
+    throw new ValidationError("Search query is required");
+  }
+
+  const safePage = Math.max(1, page);
+  const safeLimit = Math.max(1, Math.min(100, limit));
+  const offset = (safePage - 1) * safeLimit;
+
+  // ใช้ Supabase client สำหรับ public route (ไม่ต้องใช้ RLS เพราะเป็น public data)
+  const supabase = getSupabase();
+
+  try {
+    const { hits, total } = await searchPosts(supabase, keyword, {
+      statusId: 1, // Published posts only
+      limit: safeLimit,
+      offset
+    });
+    const posts = applySearchHits(await fetchPublicPostsByIds(supabase, hits.map((hit) => hit.id)), hits);
+    const totalPages = Math.ceil(total / safeLimit);
+
+    return res.status(200).json({
+      success: true,
+      query: keyword,
+      totalPosts: total,
+      totalPages,
+      currentPage: safePage,
+      limit: safeLimit,
+      posts,
+      nextPage: safePage < totalPages ? safePage + 1 : null,
+      previousPage: safePage > 1 ? safePage - 1 : null
+    });
+  } catch (error) {
+    console.error("Search route error:", error);
+    throw new DatabaseError("Failed to search posts");
+  }
+}));
+
+// GET /posts/featured?limit=10 - Featured posts that have not expired, and pinned posts in pinned order
+router.get("/featured", asyncHandler(async (req: Request, res: Response) => {
+  const limit = Number(req.query.limit) || 10;
+  const safeLimit = Math.max(1, Math.min(50, limit));
+
+  // ใช้ Supabase client สำหรับ public route (ไม่ต้องใช้ RLS เพราะเป็น public data)
+  const supabase = getSupabase();
+
+  try {
+    const [featuredResult, pinnedResult] = await Promise.all([
+      supabase
+        .from("blog_posts")
+        .select(PUBLIC_POST_COLUMNS)
+        .eq("status_id", 1)
+        .is("deleted_at", null)
+        .eq("is_featured", true)
+        .or(`featured_until.is.null,featured_until.gt.${new Date().toISOString()}`)
+        .order("published_at", { ascending: false, nullsFirst: false })
+        .limit(safeLimit),
+      supabase
+        .from("blog_posts")
+        .select(PUBLIC_POST_COLUMNS)
+        .eq("status_id", 1)
+        .is("deleted_at", null)
+        .not("pinned_position", "is", null)
+        .order("pinned_position", { ascending: true })
+        .limit(safeLimit),
+    ]);
+
+    if (featuredResult.error || pinnedResult.error) {
+      throw new DatabaseError(`Failed to fetch featured posts: ${(featuredResult.error || pinnedResult.error)?.message}`);
+    }
+
+    // Short cache so an expired feature disappears soon after featured_until
+    res.set("Cache-Control", "public, max-age=60, s-maxage=120");
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        featured: featuredResult.data || [],
+        pinned: pinnedResult.data || [],
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching featured posts:", error);
+    throw new DatabaseError("Failed to fetch featured posts");
+  }
+}));
+
+// GET /posts - Get all posts with pagination and filtering
+// ?category= accepts ids, slugs or names (repeated or comma-separated), ?sort= one of POST_SORT_OPTIONS,
+// ?pinnedFirst=true puts pinned posts (by pinned position) ahead of the sorted list,
+// ?after=<nextCursor> switches to cursor pagination (an empty ?after= starts at the top)
+router.get("/", asyncHandler(async (req: Request, res: Response) => {
+  const categoryFilter = parseCategoryFilter(req.query.category);
+  const pinnedFirst = req.query.pinnedFirst === "true" || req.query.pinnedFirst === "1";
+  const keyword = normalizeSearchQuery(req.query.keyword);
+  const tag = req.query.tag as string || "";
+  const sort = (req.query.sort as string || DEFAULT_POST_SORT).toLowerCase().replace(/-/g, "_");
+  const page = Number(req.query.page) || 1;
+  const limit = Number(req.query.limit) || 6;
+
+  const sortOption = POST_SORT_OPTIONS[sort];
+  if (!sortOption) {
+    throw new ValidationError(`Sort must be one of: ${Object.keys(POST_SORT_OPTIONS).join(", ")}`);
+  }
+
+  const safePage = Math.max(1, page);
+  const safeLimit = Math.max(1, Math.min(100, limit));
+  const offset = (safePage - 1) * safeLimit;
+
+  // Cursors follow the sort column, so they cannot be combined with relevance or pinned ordering
+  const cursorMode = req.query.after !== undefined;
+  if (cursorMode && (keyword || pinnedFirst)) {
+    throw new ValidationError("Cursor pagination cannot be combined with keyword or pinnedFirst");
+  }
+  const cursor = req.query.after ? decodeCursor(String(req.query.after), sort) : null;
+
+  // ใช้ Supabase client สำหรับ public route (ไม่ต้องใช้ RLS เพราะเป็น public data)
+  const supabase = getSupabase();
+
+  try {
+    let posts: any[] = [];
+    let totalPosts = 0;
+    let nextCursor: string | null = null;
+
+    // Filters are resolved to ids up front so they run inside the query;
+    // a category or tag that does not exist matches nothing
+    const categoryIds = categoryFilter.length > 0 ? await resolveCategoryIds(supabase, categoryFilter) : undefined;
+    const tagRecord = tag ? await findTagBySlug(supabase, tag) : null;
+    const matchesNothing = (categoryIds && categoryIds.length === 0) || (tag && !tagRecord);
+
+    if (matchesNothing) {
+      // Nothing to fetch
+    } else if (keyword) {
+      // Keyword searches go through the ranked full-text search, most relevant first
+      const { hits, total } = await searchPosts(supabase, keyword, {
+        statusId: 1, // Published posts only
+        categoryIds,
+        tagId: tagRecord?.id,
+        limit: safeLimit,
+        offset
+      });
+      posts = applySearchHits(await fetchPublicPostsByIds(supabase, hits.map((hit) => hit.id)), hits);
+      totalPosts = total;
+    } else {
+      const applyFilters = (query: any) => {
+        query = query.eq("status_id", 1).is("deleted_at", null); // Published posts (status_id = 1 for Published), not in the trash
+        if (categoryIds) {
+          query = query.in("category_id", categoryIds);
+        }
+        if (tagRecord) {
+          query = query.eq("tag_filter.tag_id", tagRecord.id);
+        }
+        return query;
+      };
+
+      const tagJoin = tagRecord ? ", tag_filter:post_tags!inner(tag_id)" : "";
+
+      let listQuery = applyFilters(
+        supabase.from("blog_posts").select(`${PUBLIC_POST_COLUMNS}${tagJoin}`)
+      );
+      if (pinnedFirst) {
+        listQuery = listQuery.order("pinned_position", { ascending: true, nullsFirst: false });
+      }
+      if (cursor) {
+        listQuery = applyCursor(listQuery, sortOption.column, sortOption.ascending, cursor);
+      }
+
+      listQuery = listQuery
+        .order(sortOption.column, { ascending: sortOption.ascending, nullsFirst: false })
+        .order("id", { ascending: sortOption.ascending }); // Stable order between pages
+
+      // Cursor mode reads one extra row instead of counting to know if another page follows
+      const { data, error } = cursorMode
+        ? await listQuery.limit(safeLimit + 1)
+        : await listQuery.range(offset, offset + safeLimit - 1);
+
+      if (error) {
+        console.error("Supabase error:", error);
+        throw new DatabaseError(`Failed to fetch posts: ${error.message}`);
+      }
+
+      // The tag filter join is only used for filtering, not part of the payload
+      posts = (data || []).map(({ tag_filter, ...post }: any) => post);
+
+      if (cursorMode) {
+        ({ items: posts, nextCursor } = buildNextCursor(posts, safeLimit, sort, sortOption.column));
+      } else {
+        // Get total count with the same filters so pagination matches the result
+        const { count, error: countError } = await applyFilters(
+          supabase.from("blog_posts").select(`id${tagJoin}`, { count: "exact", head: true })
+        );
+
+        if (countError) {
+          console.error("Count error:", countError);
+          throw new DatabaseError(`Failed to count posts: ${countError.message}`);
+        }
+
+        totalPosts = count || 0;
+
+        // Hand page clients a cursor too so they can switch over; pinned ordering has none
+        const last = posts[posts.length - 1];
+        if (!pinnedFirst && last && offset + posts.length < totalPosts) {
+          nextCursor = encodeCursor(sort, last[sortOption.column] ?? null, last.id);
+        }
+      }
+    }
+
+    if (cursorMode) {
+      return res.status(200).json({
+        success: true,
+        limit: safeLimit,
+        sort,
+        posts,
+        nextCursor
+      });
+    }
+
+    const totalPages = Math.ceil(totalPosts / safeLimit);
+
+    return res.status(200).json({
+      success: true,
+      totalPosts,
+      totalPages,
+      currentPage: safePage,
+      limit: safeLimit,
+      sort: keyword ? "relevance" : sort,
+      pinnedFirst: pinnedFirst && !keyword,
+      posts,
+      nextPage: safePage < totalPages ? safePage + 1 : null,
+      previousPage: safePage > 1 ? safePage - 1 : null,
+      nextCursor
+    });
+  } catch (error) {
+    console.error("Route error:", error);
+    throw new DatabaseError("Failed to fetch posts");
+  }
+}));
+
+// GET /posts/preview/:token - Read a post (draft or not) with a preview token, no account needed
+router.get("/preview/:token", asyncHandler(async (req: Request, res: Response) => {
+  const payload = verifyPreviewToken(req.params.token || "");
+
+  // Previews are private: never cache them or let them be indexed
+  res.set({ "Cache-Control": "no-store", "X-Robots-Tag": "noindex, nofollow" });
+
+  if (!payload || !(await isPreviewTokenActive(payload))) {
+    throw new NotFoundError("Preview");
+  }
+
+  // The token grants access, so read through the admin client (drafts are hidden by RLS)
+  const supabaseAdmin = createSupabaseAdminHelper();
+
+  try {
+    const { data: post, error } = await supabaseAdmin.supabase
+      .from("blog_posts")
+      .select(PUBLIC_POST_COLUMNS)
+      .eq("id", payload.postId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to fetch post: ${error.message}`);
+    }
+    if (!post) {
+      throw new NotFoundError("Preview");
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { ...withRenderedContent(post), preview_expires_at: payload.expiresAt.toISOString() },
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to fetch preview");
+  }
+}));
+
+// GET /posts/slug/:slug - Get a published post by slug (old slugs redirect to the current one)
+router.get("/slug/:slug", asyncHandler(async (req: Request, res: Response) => {
+  const slug = normalizeSlug(req.params.slug || "");
+
+  if (!slug) {
+    throw new ValidationError("Invalid slug");
+  }
+
+  // ใช้ Supabase client สำหรับ public route (ไม่ต้องใช้ RLS เพราะเป็น public data)
+  const supabase = getSupabase();
+
+  try {
+    const { data: post, error } = await supabase
+      .from("blog_posts")
+      .select(PUBLIC_POST_COLUMNS)
+      .eq("slug", slug)
+      .eq("status_id", 1) // Only published posts
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to fetch post: ${error.message}`);
+    }
+
+    if (post) {
+      return res.status(200).json({
+        success: true,
+        data: { ...withRenderedContent(post), series: await getSeriesContext(supabase, post.id) },
+      });
+    }
+
+    const currentSlug = await findRedirectSlug(supabase, slug);
+    if (currentSlug && currentSlug !== slug) {
+      return res.redirect(301, `${req.baseUrl}/slug/${encodeURIComponent(currentSlug)}`);
+    }
+
+    throw new NotFoundError("Post");
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to fetch post");
+  }
+}));
+
+// GET /posts/:postId/related?limit=4 - Published posts similar to this one, best match first
+router.get("/:postId/related", asyncHandler(async (req: Request, res: Response) => {
+  const postIdFromClient = req.params.postId;
+  const limit = Number(req.query.limit) || 4;
+
+  // Validate postId parameter
+  if (!postIdFromClient || isNaN(Number(postIdFromClient))) {
+    throw new ValidationError("Invalid post ID");
+  }
+
+  const safeLimit = Math.max(1, Math.min(20, limit));
+
+  // ใช้ Supabase client สำหรับ public route (ไม่ต้องใช้ RLS เพราะเป็น public data)
+  const supabase = getSupabase();
+
+  try {
+    const related = await getRelatedPosts(supabase, Number(postIdFromClient), safeLimit);
+
+    if (!related) {
+      throw new NotFoundError("Post", postIdFromClient);
+    }
+
+    // Let browsers and the CDN cache the list per post
+    res.set("Cache-Control", "public, max-age=300, s-maxage=600");
+
+    return res.status(200).json({
+      success: true,
+      data: related,
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    console.error("Error fetching related posts:", error);
+    throw new DatabaseError("Failed to fetch related posts");
+  }
+}));
+
+// POST /posts/:postId/view - View beacon; repeat views from the same visitor within the window count once
+router.post("/:postId/view", optionalUser, asyncHandler(async (req: Request, res: Response) => {
+  const postIdFromClient = req.params.postId;
+
+  // Validate postId parameter
+  if (!postIdFromClient || isNaN(Number(postIdFromClient))) {
+    throw new ValidationError("Invalid post ID");
+  }
+
+  try {
+    const result = await recordPostView(Number(postIdFromClient), getViewerKey(req));
+
+    if (!result.found) {
+      throw new NotFoundError("Post", postIdFromClient);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        counted: result.counted,
+        views: result.views
+      }
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    console.error("Error recording view:", error);
+    throw new DatabaseError("Failed to record view");
+  }
+}));
+
+// GET /posts/:postId - Get a specific post by ID
+router.get("/:postId", asyncHandler(async (req: Request, res: Response) => {
+  const postIdFromClient = req.params.postId;
+
+  // Validate postId parameter
+  if (!postIdFromClient || isNaN(Number(postIdFromClient))) {
+    throw new ValidationError("Invalid post ID");
+  }
+
+  // ใช้ Supabase client สำหรับ public route (ไม่ต้องใช้ RLS เพราะเป็น public data)
+  const supabase = getSupabase();
+  
+  try {
+    const { data: post, error } = await supabase
+      .from("blog_posts")
+      .select(PUBLIC_POST_COLUMNS)
+      .eq("id", postIdFromClient)
+      .eq("status_id", 1) // Only published posts
+      .is("deleted_at", null)
+      .single();
+
+    if (error || !post) {
+      throw new NotFoundError("Post", postIdFromClient);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { ...withRenderedContent(post), series: await getSeriesContext(supabase, post.id) },
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to fetch post");
+  }
+}));
+
+// DELETE /posts/:postId - Move a post to the trash (comments and likes are kept)
+router.delete("/:postId", protectEditor, protectPostOwner, asyncHandler(async (req: Request, res: Response) => {
+  const postIdFromClient = req.params.postId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate postId parameter
+  if (!postIdFromClient || isNaN(Number(postIdFromClient))) {
+    throw new ValidationError("Invalid post ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const existingPosts = await supabaseRls.select("blog_posts", "id", { id: postIdFromClient, deleted_at: null });
+    if (!existingPosts || existingPosts.length === 0) {
+      throw new NotFoundError("Post", postIdFromClient);
+    }
+
+    const deletedAt = new Date().toISOString();
+    const result = await supabaseRls.update("blog_posts", {
+      deleted_at: deletedAt,
+      deleted_by: (req as any).user?.id,
+    }, { id: postIdFromClient });
+
+    return res.status(200).json({
+      success: true,
+      message: "Moved post to trash successfully",
+      data: { ...result, purge_at: getPurgeDate(deletedAt) }
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
     console.error("Error deleting post:", error);
     throw new DatabaseError("Failed to delete post");
   }
@@ -2,27 +2,11 @@ import { Router, Request, Response } from "express";
 import protectUser from "../middleware/protectUser";
 import { asyncHandler } from "../middleware/errorHandler";
 import { createSupabaseRlsHelper } from "../utils/supabaseRls";
-import { DatabaseError } from "../utils/errors";
-import multer from "multer";
+import { DatabaseError, ValidationError } from "../utils/errors";
+import { imageUpload, uploadImage } from "../utils/imageUpload";
 
 const router = Router();
 
-// Configure multer for file uploads
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB limit
-  },
-  fileFilter: (req, file, cb) => {
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-    if (allowedTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Invalid file type. Only JPEG, PNG, GIF, and WebP are allowed.'));
-    }
-  }
-});
-
 // GET /profiles - Get current user profile (Protected)
 router.get("/", protectUser, asyncHandler(async (req: Request, res: Response) => {
   const accessToken = (req as any).accessToken;
@@ -118,7 +102,7 @@ router.put("/", protectUser, asyncHandler(async (req: Request, res: Response) =>
 }));
 
 // POST /profiles/upload-image - Upload profile image directly
-router.post("/upload-image", protectUser, upload.single('image'), asyncHandler(async (req: Request, res: Response) => {
+router.post("/upload-image", protectUser, imageUpload("profile-images"), asyncHandler(async (req: Request, res: Response) => {
     const accessToken = (req as any).accessToken;
     const file = req.file;
 
@@ -128,36 +112,15 @@ router.post("/upload-image", protectUser, upload.single('image'), asyncHandler(a
 
     try {
         const supabaseRls = createSupabaseRlsHelper(accessToken);
-        const bucketName = "profile-images";
-        const safeOriginalName = file.originalname.replace(/[^a-zA-Z0-9-._]/g, '_');
-        const fileName = `profile-${Date.now()}-${safeOriginalName}`;
-        const filePath = `public/${fileName}`;
-
-        // Upload file to Supabase Storage
-        const { data, error } = await supabaseRls.supabase.storage
-            .from(bucketName)
-            .upload(filePath, file.buffer, {
-                contentType: file.mimetype,
-                upsert: false
-            });
-
-        if (error) {
-            throw new DatabaseError(`Failed to upload image: ${error.message}`);
-        }
-
-        // Get public URL
-        const { data: publicURLData } = supabaseRls.supabase.storage
-            .from(bucketName)
-            .getPublicUrl(filePath);
+        const uploaded = await uploadImage(supabaseRls.supabase, "profile-images", file, (req as any).user?.id);
 
         return res.status(200).json({ 
             success: true, 
-            imageUrl: publicURLData.publicUrl,
-            fileName: fileName
+            ...uploaded
         });
 
     } catch (error) {
-        if (error instanceof DatabaseError) {
+        if (error instanceof DatabaseError || error instanceof ValidationError) {
             throw error;
         }
         throw new DatabaseError("Failed to upload image.");
@@ -0,0 +1,342 @@
+import { Router, Request, Response } from "express";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { asyncHandler } from "../middleware/errorHandler";
+import { DatabaseError, NotFoundError, ValidationError } from "../utils/errors";
+import protectAdmin from "../middleware/protectAdmin";
+import { createSupabaseRlsHelper } from "../utils/supabaseRls";
+import { getSupabase } from "../utils/supabase";
+import { generateSlug, isSlugConflict, normalizeSlug } from "../utils/slugHelper";
+import { fetchSeriesParts, parseSeriesPostIds } from "../utils/seriesHelper";
+
+const router = Router();
+
+// Validate title, description and slug from the request body.
+// The slug is only set when the request sends one; POST falls back to the title.
+const validateSeriesData = (body: any) => {
+  const { title, description, slug } = body || {};
+
+  if (!title || typeof title !== "string" || title.trim().length === 0) {
+    throw new ValidationError("Series title is required");
+  }
+  if (title.trim().length > 200) {
+    throw new ValidationError("Series title must be less than 200 characters");
+  }
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    throw new ValidationError("Description must be a string");
+  }
+  // Slugs must already be in the form generateSlug produces, so they round-trip through GET /series/:slug
+  if (slug !== undefined && (typeof slug !== "string" || !normalizeSlug(slug) || generateSlug(slug, "") !== normalizeSlug(slug))) {
+    throw new ValidationError("Slug may only contain lowercase letters, numbers and single hyphens");
+  }
+
+  return {
+    title: title.trim(),
+    description: description?.trim() || null,
+    ...(slug && { slug: normalizeSlug(slug) }),
+  };
+};
+
+// Another series already uses the slug, found up front or by the unique index on a race
+const slugTaken = (res: Response) => res.status(400).json({
+  success: false,
+  error: "Series with this slug already exists"
+});
+
+// Make sure every post exists and is not already part of another series
+const checkSeriesPosts = async (supabase: SupabaseClient, postIds: number[], seriesId?: number) => {
+  if (postIds.length === 0) {
+    return;
+  }
+
+  const { data: posts, error } = await supabase
+    .from("blog_posts")
+    .select("id")
+    .in("id", postIds)
+    .is("deleted_at", null);
+
+  if (error) {
+    throw new DatabaseError(`Failed to fetch posts: ${error.message}`);
+  }
+
+  const foundIds = new Set((posts || []).map((post: any) => post.id));
+  const missingIds = postIds.filter((id) => !foundIds.has(id));
+  if (missingIds.length > 0) {
+    throw new NotFoundError("Post", missingIds.join(", "));
+  }
+
+  let query = supabase
+    .from("series_posts")
+    .select("post_id, series_id")
+    .in("post_id", postIds);
+
+  if (seriesId) {
+    query = query.neq("series_id", seriesId);
+  }
+
+  const { data: taken, error: takenError } = await query;
+  if (takenError) {
+    throw new DatabaseError(`Failed to fetch series posts: ${takenError.message}`);
+  }
+  if (taken && taken.length > 0) {
+    throw new ValidationError(
+      `Posts already belong to another series: ${taken.map((row: any) => row.post_id).join(", ")}`
+    );
+  }
+};
+
+// GET /series - List all series (public)
+router.get("/", asyncHandler(async (req: Request, res: Response) => {
+  const supabase = getSupabase();
+
+  try {
+    const { data: series, error } = await supabase
+      .from("series")
+      .select("id, title, slug, description, created_at, updated_at")
+      .order("updated_at", { ascending: false });
+
+    if (error) {
+      throw new DatabaseError(`Failed to fetch series: ${error.message}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: series || [],
+    });
+  } catch (error) {
+    throw new DatabaseError("Failed to fetch series");
+  }
+}));
+
+// GET /series/admin/:seriesId - A series with all of its posts, drafts included (admin only)
+router.get("/admin/:seriesId", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const seriesId = req.params.seriesId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate seriesId parameter
+  if (!seriesId || isNaN(Number(seriesId))) {
+    throw new ValidationError("Invalid series ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const series = await supabaseRls.select("series", "*", { id: seriesId });
+    if (!series || series.length === 0) {
+      throw new NotFoundError("Series", seriesId);
+    }
+
+    const posts = await fetchSeriesParts(supabaseRls.supabase, Number(seriesId), true);
+
+    return res.status(200).json({
+      success: true,
+      data: { ...(series[0] as any), posts },
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to fetch series");
+  }
+}));
+
+// GET /series/:slug - A series with its table of contents (published parts only)
+router.get("/:slug", asyncHandler(async (req: Request, res: Response) => {
+  const slug = normalizeSlug(req.params.slug || "");
+
+  if (!slug) {
+    throw new ValidationError("Invalid slug");
+  }
+
+  const supabase = getSupabase();
+
+  try {
+    const { data: series, error } = await supabase
+      .from("series")
+      .select("id, title, slug, description, created_at, updated_at")
+      .eq("slug", slug)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to fetch series: ${error.message}`);
+    }
+    if (!series) {
+      throw new NotFoundError("Series");
+    }
+
+    const posts = await fetchSeriesParts(supabase, series.id);
+
+    return res.status(200).json({
+      success: true,
+      data: { ...series, total: posts.length, posts },
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to fetch series");
+  }
+}));
+
+// POST /series - Create a series, optionally with its ordered posts (admin only)
+router.post("/", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const validated = validateSeriesData(req.body);
+  const seriesData = { ...validated, slug: validated.slug || generateSlug(validated.title, "") };
+  if (!seriesData.slug) {
+    // A placeholder slug would clash for every such title, so ask for one instead
+    throw new ValidationError("Series title has no letters or numbers to build a slug from, send a slug");
+  }
+  const postIds = req.body.postIds === undefined ? [] : parseSeriesPostIds(req.body.postIds);
+  const accessToken = (req as any).accessToken;
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const existingSeries = await supabaseRls.select("series", "id", { slug: seriesData.slug });
+    if (existingSeries && existingSeries.length > 0) {
+      return slugTaken(res);
+    }
+
+    await checkSeriesPosts(supabaseRls.supabase, postIds);
+
+    const result = await supabaseRls.insert("series", seriesData);
+    if (postIds.length > 0) {
+      try {
+        await supabaseRls.rpc("set_series_posts", { p_series_id: result.id, p_post_ids: postIds });
+      } catch (error) {
+        // Don't leave an empty series behind when its posts could not be set
+        await supabaseRls.delete("series", { id: result.id });
+        throw error;
+      }
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: "Created series successfully",
+      data: { ...result, posts: await fetchSeriesParts(supabaseRls.supabase, result.id, true) }
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+    if (isSlugConflict(error, "series_slug_key")) {
+      return slugTaken(res);
+    }
+    console.error("Error creating series:", error);
+    throw new DatabaseError(`Failed to create series: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}));
+
+// PUT /series/:seriesId - Update a series' title, slug and description (admin only)
+router.put("/:seriesId", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const seriesId = req.params.seriesId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate seriesId parameter
+  if (!seriesId || isNaN(Number(seriesId))) {
+    throw new ValidationError("Invalid series ID");
+  }
+
+  const seriesData = validateSeriesData(req.body);
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const existingSeries = await supabaseRls.select("series", "id", { id: seriesId });
+    if (!existingSeries || existingSeries.length === 0) {
+      throw new NotFoundError("Series", seriesId);
+    }
+
+    // The slug (and so the series URL) only changes when one is sent explicitly
+    if (seriesData.slug) {
+      const duplicateSeries = await supabaseRls.select("series", "id", { slug: seriesData.slug });
+      if ((duplicateSeries || []).some((series: any) => series.id !== Number(seriesId))) {
+        return slugTaken(res);
+      }
+    }
+
+    const result = await supabaseRls.update("series", {
+      ...seriesData,
+      updated_at: new Date()
+    }, { id: seriesId });
+
+    return res.status(200).json({
+      success: true,
+      message: "Updated series successfully",
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    if (isSlugConflict(error, "series_slug_key")) {
+      return slugTaken(res);
+    }
+    throw new DatabaseError("Failed to update series");
+  }
+}));
+
+// PUT /series/:seriesId/posts - Set or reorder the posts of a series; the array order is the reading order (admin only)
+router.put("/:seriesId/posts", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const seriesId = req.params.seriesId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate seriesId parameter
+  if (!seriesId || isNaN(Number(seriesId))) {
+    throw new ValidationError("Invalid series ID");
+  }
+
+  const postIds = parseSeriesPostIds(req.body.postIds);
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const existingSeries = await supabaseRls.select("series", "id", { id: seriesId });
+    if (!existingSeries || existingSeries.length === 0) {
+      throw new NotFoundError("Series", seriesId);
+    }
+
+    await checkSeriesPosts(supabaseRls.supabase, postIds, Number(seriesId));
+    await supabaseRls.rpc("set_series_posts", { p_series_id: Number(seriesId), p_post_ids: postIds });
+
+    return res.status(200).json({
+      success: true,
+      message: "Updated series posts successfully",
+      data: await fetchSeriesParts(supabaseRls.supabase, Number(seriesId), true)
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to update series posts");
+  }
+}));
+
+// DELETE /series/:seriesId - Delete a series; its posts are kept (admin only)
+router.delete("/:seriesId", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const seriesId = req.params.seriesId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate seriesId parameter
+  if (!seriesId || isNaN(Number(seriesId))) {
+    throw new ValidationError("Invalid series ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const result = await supabaseRls.delete("series", { id: seriesId });
+    if (!result) {
+      throw new NotFoundError("Series", seriesId);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Deleted series successfully",
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to delete series");
+  }
+}));
+
+export default router;
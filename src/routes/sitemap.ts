@@ -0,0 +1,161 @@
+import { Router, Request, Response } from "express";
+import { asyncHandler } from "../middleware/errorHandler";
+import { DatabaseError, NotFoundError, ValidationError } from "../utils/errors";
+import { getSupabase } from "../utils/supabase";
+import { buildSiteUrl, siteConfig } from "../utils/config";
+import {
+  buildRobotsTxt,
+  buildSitemapIndex,
+  buildUrlset,
+  MAX_SITEMAP_URLS,
+  SitemapUrl,
+} from "../utils/sitemapBuilder";
+
+const router = Router();
+
+// Supabase returns at most 1000 rows per request, so posts are read in batches
+const POST_BATCH_SIZE = 1000;
+
+const sendXml = (res: Response, body: string) => {
+  res.set({
+    "Content-Type": "application/xml; charset=utf-8",
+    "Cache-Control": "public, max-age=3600, s-maxage=3600",
+  });
+  return res.status(200).send(body);
+};
+
+// Home page, category pages and the pages of authors with published posts
+const loadPageUrls = async (): Promise<SitemapUrl[]> => {
+  const supabase = getSupabase();
+
+  const [categoriesResult, authorsResult] = await Promise.all([
+    supabase.from("categories").select("id, slug").order("name", { ascending: true }),
+    supabase
+      .from("users")
+      .select("id, username, blog_posts!author_id!inner(id)")
+      .eq("blog_posts.status_id", 1)
+      .is("blog_posts.deleted_at", null)
+      .limit(1, { referencedTable: "blog_posts" })
+      .order("username", { ascending: true }),
+  ]);
+
+  if (categoriesResult.error) {
+    throw new DatabaseError(`Failed to fetch categories: ${categoriesResult.error.message}`);
+  }
+  if (authorsResult.error) {
+    throw new DatabaseError(`Failed to fetch authors: ${authorsResult.error.message}`);
+  }
+
+  return [
+    { loc: `${siteConfig.siteUrl}/` },
+    ...(categoriesResult.data || []).map((category: any) => ({
+      loc: buildSiteUrl(siteConfig.categoryPath, { slug: category.slug || category.id, id: category.id }),
+    })),
+    ...(authorsResult.data || [])
+      .filter((author: any) => author.username)
+      .map((author: any) => ({
+        loc: buildSiteUrl(siteConfig.authorPath, { username: author.username, id: author.id }),
+      })),
+  ];
+};
+
+const countPublishedPosts = async (): Promise<number> => {
+  const { count, error } = await getSupabase()
+    .from("blog_posts")
+    .select("id", { count: "exact", head: true })
+    .eq("status_id", 1)
+    .is("deleted_at", null);
+
+  if (error) {
+    throw new DatabaseError(`Failed to count posts: ${error.message}`);
+  }
+  return count || 0;
+};
+
+// Published post URLs in id order, starting at `offset`
+const loadPostUrls = async (offset: number, total: number): Promise<SitemapUrl[]> => {
+  const supabase = getSupabase();
+  const urls: SitemapUrl[] = [];
+
+  for (let start = offset; start < offset + total; start += POST_BATCH_SIZE) {
+    const end = Math.min(start + POST_BATCH_SIZE, offset + total) - 1;
+    const { data, error } = await supabase
+      .from("blog_posts")
+      .select("id, slug, updated_at, published_at")
+      .eq("status_id", 1)
+      .is("deleted_at", null)
+      .order("id", { ascending: true })
+      .range(start, end);
+
+    if (error) {
+      throw new DatabaseError(`Failed to fetch posts: ${error.message}`);
+    }
+
+    (data || []).forEach((post: any) => {
+      urls.push({
+        loc: buildSiteUrl(siteConfig.postPath, { slug: post.slug || post.id, id: post.id }),
+        lastmod: post.updated_at || post.published_at,
+      });
+    });
+
+    if (!data || data.length < end - start + 1) {
+      break;
+    }
+  }
+
+  return urls;
+};
+
+// GET /sitemap.xml - One sitemap while everything fits, otherwise a sitemap index
+router.get("/sitemap.xml", asyncHandler(async (req: Request, res: Response) => {
+  const [pageUrls, postCount] = await Promise.all([loadPageUrls(), countPublishedPosts()]);
+
+  if (pageUrls.length + postCount <= MAX_SITEMAP_URLS) {
+    const postUrls = await loadPostUrls(0, postCount);
+    return sendXml(res, buildUrlset([...pageUrls, ...postUrls]));
+  }
+
+  const postSitemapCount = Math.ceil(postCount / MAX_SITEMAP_URLS);
+  const sitemaps: SitemapUrl[] = [
+    { loc: `${siteConfig.sitemapBaseUrl}/sitemaps/pages.xml` },
+    ...Array.from({ length: postSitemapCount }, (_, index) => ({
+      loc: `${siteConfig.sitemapBaseUrl}/sitemaps/posts-${index + 1}.xml`,
+    })),
+  ];
+
+  return sendXml(res, buildSitemapIndex(sitemaps));
+}));
+
+// GET /sitemaps/pages.xml - Home, category and author pages (used by the sitemap index)
+router.get("/sitemaps/pages.xml", asyncHandler(async (req: Request, res: Response) => {
+  return sendXml(res, buildUrlset(await loadPageUrls()));
+}));
+
+// GET /sitemaps/posts-:page.xml - One chunk of up to 50,000 post URLs (used by the sitemap index)
+router.get("/sitemaps/posts-:page.xml", asyncHandler(async (req: Request, res: Response) => {
+  const page = Number(req.params.page);
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new ValidationError("Invalid sitemap page");
+  }
+
+  const postCount = await countPublishedPosts();
+  const offset = (page - 1) * MAX_SITEMAP_URLS;
+  if (offset >= postCount) {
+    throw new NotFoundError("Sitemap page", page);
+  }
+
+  const postUrls = await loadPostUrls(offset, Math.min(MAX_SITEMAP_URLS, postCount - offset));
+  return sendXml(res, buildUrlset(postUrls));
+}));
+
+// GET /robots.txt
+router.get("/robots.txt", (req: Request, res: Response) => {
+  res.set({
+    "Content-Type": "text/plain; charset=utf-8",
+    "Cache-Control": "public, max-age=86400",
+  });
+  res.status(200).send(buildRobotsTxt(`${siteConfig.sitemapBaseUrl}/sitemap.xml`, siteConfig.robotsDisallow));
+});
+
+export default router;
@@ -0,0 +1,213 @@
+import { Router, Request, Response } from "express";
+import { asyncHandler } from "../middleware/errorHandler";
+import { DatabaseError, NotFoundError, ValidationError } from "../utils/errors";
+import protectAdmin from "../middleware/protectAdmin";
+import { createSupabaseRlsHelper } from "../utils/supabaseRls";
+import { getSupabase } from "../utils/supabase";
+import { getTagSlug, MAX_TAG_NAME_LENGTH } from "../utils/tagHelper";
+
+const router = Router();
+
+// Validate and trim a tag name from the request body
+const validateTagName = (name: unknown): string => {
+  if (!name || typeof name !== 'string' || name.trim().length === 0) {
+    throw new ValidationError("Tag name is required");
+  }
+  if (name.trim().length > MAX_TAG_NAME_LENGTH) {
+    throw new ValidationError(`Tag name must be less than ${MAX_TAG_NAME_LENGTH} characters`);
+  }
+  getTagSlug(name.trim()); // Symbol-only names have no slug
+  return name.trim();
+};
+
+// GET /tags - Get all tags (public)
+router.get("/", asyncHandler(async (req: Request, res: Response) => {
+  const supabase = getSupabase();
+
+  try {
+    const { data: tags, error } = await supabase
+      .from("tags")
+      .select("id, name, slug")
+      .order("name", { ascending: true });
+
+    if (error) {
+      throw new DatabaseError("Failed to fetch tags");
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: tags || [],
+    });
+  } catch (error) {
+    throw new DatabaseError("Failed to fetch tags");
+  }
+}));
+
+// GET /tags/cloud - Tags with the number of published posts (public)
+router.get("/cloud", asyncHandler(async (req: Request, res: Response) => {
+  const limit = Number(req.query.limit) || 50;
+  const safeLimit = Math.max(1, Math.min(200, limit));
+  const supabase = getSupabase();
+
+  try {
+    const { data: tags, error } = await supabase
+      .from("tag_post_counts")
+      .select("id, name, slug, post_count")
+      .gt("post_count", 0)
+      .order("post_count", { ascending: false })
+      .order("name", { ascending: true })
+      .limit(safeLimit);
+
+    if (error) {
+      throw new DatabaseError("Failed to fetch tag cloud");
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: (tags || []).map((tag: any) => ({ ...tag, post_count: Number(tag.post_count) })),
+    });
+  } catch (error) {
+    throw new DatabaseError("Failed to fetch tag cloud");
+  }
+}));
+
+// GET /tags/:tagId - Get a specific tag by ID
+router.get("/:tagId", asyncHandler(async (req: Request, res: Response) => {
+  const tagId = req.params.tagId;
+
+  // Validate tagId parameter
+  if (!tagId || isNaN(Number(tagId))) {
+    throw new ValidationError("Invalid tag ID");
+  }
+
+  const supabase = getSupabase();
+
+  try {
+    const { data: tag, error } = await supabase
+      .from("tags")
+      .select("id, name, slug")
+      .eq("id", tagId)
+      .single();
+
+    if (error || !tag) {
+      throw new NotFoundError("Tag", tagId);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: tag,
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to fetch tag");
+  }
+}));
+
+// POST /tags - Create a new tag (admin only)
+router.post("/", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const name = validateTagName(req.body.name);
+  const accessToken = (req as any).accessToken;
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const slug = getTagSlug(name);
+
+    // Tags are identified by slug, so "React" and "react" are the same tag
+    const existingTags = await supabaseRls.select("tags", "id", { slug });
+    if (existingTags && existingTags.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Tag with this name already exists"
+      });
+    }
+
+    const result = await supabaseRls.insert("tags", { name, slug });
+
+    return res.status(201).json({
+      success: true,
+      message: "Created tag successfully",
+      data: result
+    });
+  } catch (error) {
+    console.error("Error creating tag:", error);
+    throw new DatabaseError(`Failed to create tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}));
+
+// PUT /tags/:tagId - Rename a tag (admin only)
+router.put("/:tagId", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const tagId = req.params.tagId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate tagId parameter
+  if (!tagId || isNaN(Number(tagId))) {
+    throw new ValidationError("Invalid tag ID");
+  }
+
+  const name = validateTagName(req.body.name);
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const existingTag = await supabaseRls.select("tags", "id", { id: tagId });
+    if (!existingTag || existingTag.length === 0) {
+      throw new NotFoundError("Tag", tagId);
+    }
+
+    const slug = getTagSlug(name);
+    const duplicateTags = await supabaseRls.select("tags", "id", { slug });
+    if ((duplicateTags || []).some((tag: any) => tag.id !== Number(tagId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Tag with this name already exists"
+      });
+    }
+
+    const result = await supabaseRls.update("tags", { name, slug }, { id: tagId });
+
+    return res.status(200).json({
+      success: true,
+      message: "Updated tag successfully",
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to update tag");
+  }
+}));
+
+// DELETE /tags/:tagId - Delete a tag (admin only); post_tags rows cascade
+router.delete("/:tagId", protectAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const tagId = req.params.tagId;
+  const accessToken = (req as any).accessToken;
+
+  // Validate tagId parameter
+  if (!tagId || isNaN(Number(tagId))) {
+    throw new ValidationError("Invalid tag ID");
+  }
+
+  const supabaseRls = createSupabaseRlsHelper(accessToken);
+
+  try {
+    const result = await supabaseRls.delete("tags", { id: tagId });
+    if (!result) {
+      throw new NotFoundError("Tag", tagId);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Deleted tag successfully",
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new DatabaseError("Failed to delete tag");
+  }
+}));
+
+export default router;
@@ -204,6 +204,49 @@ router.patch('/:id/status', protectAdmin, async (req, res, next) => {
   }
 });
 
+// เปลี่ยน role ผู้ใช้ (user/editor/admin)
+router.patch('/:id/role', protectAdmin, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    if (!role || !['user', 'editor', 'admin'].includes(role)) {
+      res.status(400).json({
+        success: false,
+        message: 'Role must be one of "user", "editor" or "admin"'
+      });
+      return;
+    }
+
+    // กันไม่ให้ admin ลด role ตัวเองจนไม่มีใครจัดการระบบได้
+    if (id === (req as any).user?.id && role !== 'admin') {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot change your own admin role'
+      });
+      return;
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('users')
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    res.json({
+      success: true,
+      message: `User role changed to ${role} successfully`,
+      data
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // ลบผู้ใช้
 router.delete('/:id', protectAdmin, async (req, res, next) => {
   try {
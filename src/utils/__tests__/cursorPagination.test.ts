@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyCursor, buildNextCursor, decodeCursor, encodeCursor } from "../cursorPagination";
+import { ValidationError } from "../errors";
+
+// Records the or() filter instead of sending a query
+const fakeQuery = () => {
+  const query = { filters: [] as string[], or: (filters: string) => (query.filters.push(filters), query) };
+  return query;
+};
+
+describe("cursorPagination", () => {
+  it("round-trips a cursor for the same ordering", () => {
+    const cursor = encodeCursor("published_at", "2025-01-02T03:04:05+00:00", 42);
+    assert.deepEqual(decodeCursor(cursor, "published_at"), { value: "2025-01-02T03:04:05+00:00", id: 42 });
+    assert.deepEqual(decodeCursor(encodeCursor("views", null, 7), "views"), { value: null, id: 7 });
+  });
+
+  it("rejects cursors from another ordering or with a bad payload", () => {
+    const cursor = encodeCursor("views", 10, 1);
+    assert.throws(() => decodeCursor(cursor, "likes"), ValidationError);
+    assert.throws(() => decodeCursor("not-a-cursor", "views"), ValidationError);
+
+    const badId = Buffer.from(JSON.stringify({ s: "views", v: 1, id: "1" })).toString("base64url");
+    assert.throws(() => decodeCursor(badId, "views"), ValidationError);
+    const badValue = Buffer.from(JSON.stringify({ s: "views", v: { x: 1 }, id: 1 })).toString("base64url");
+    assert.throws(() => decodeCursor(badValue, "views"), ValidationError);
+  });
+
+  it("builds the keyset condition for ascending and descending orders", () => {
+    const desc = applyCursor(fakeQuery(), "views", false, { value: 10, id: 5 });
+    assert.deepEqual(desc.filters, ["views.lt.10,and(views.eq.10,id.lt.5),views.is.null"]);
+
+    const asc = applyCursor(fakeQuery(), "title", true, { value: 'say "hi"', id: 3 });
+    assert.deepEqual(asc.filters, ['title.gt."say \\"hi\\"",and(title.eq."say \\"hi\\"",id.gt.3),title.is.null']);
+  });
+
+  it("only pages through the remaining null rows after a null cursor", () => {
+    const query = applyCursor(fakeQuery(), "published_at", false, { value: null, id: 9 });
+    assert.deepEqual(query.filters, ["and(published_at.is.null,id.lt.9)"]);
+  });
+
+  it("returns a next cursor only when an extra row was fetched", () => {
+    const rows = [{ id: 3, views: 30 }, { id: 2, views: 20 }, { id: 1, views: 10 }];
+
+    const lastPage = buildNextCursor(rows, 3, "views", "views");
+    assert.equal(lastPage.nextCursor, null);
+    assert.equal(lastPage.items.length, 3);
+
+    const page = buildNextCursor(rows, 2, "views", "views");
+    assert.deepEqual(page.items.map((row) => row.id), [3, 2]);
+    assert.deepEqual(decodeCursor(page.nextCursor as string, "views"), { value: 20, id: 2 });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { assertImageContent, detectImageType } from "../imageUpload";
+import { ValidationError } from "../errors";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+const GIF = Buffer.from("GIF89a\x01\x00", "latin1");
+const WEBP = Buffer.concat([Buffer.from("RIFF"), Buffer.alloc(4), Buffer.from("WEBPVP8 ")]);
+
+const upload = (buffer: Buffer, mimetype: string) => ({ buffer, mimetype }) as Express.Multer.File;
+
+describe("detectImageType", () => {
+  it("recognises the accepted formats by signature", () => {
+    assert.equal(detectImageType(PNG), "image/png");
+    assert.equal(detectImageType(JPEG), "image/jpeg");
+    assert.equal(detectImageType(GIF), "image/gif");
+    assert.equal(detectImageType(WEBP), "image/webp");
+  });
+
+  it("flags SVG even after a BOM or whitespace", () => {
+    assert.equal(detectImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>')), "image/svg+xml");
+    assert.equal(detectImageType(Buffer.from('\uFEFF  <?xml version="1.0"?><svg/>')), "image/svg+xml");
+  });
+
+  it("returns null for unknown or truncated content", () => {
+    assert.equal(detectImageType(Buffer.from("hello world")), null);
+    assert.equal(detectImageType(PNG.subarray(0, 4)), null);
+    assert.equal(detectImageType(Buffer.alloc(0)), null);
+  });
+});
+
+describe("assertImageContent", () => {
+  it("returns the detected type when it matches the declared one", () => {
+    assert.equal(assertImageContent(upload(PNG, "image/png")), "image/png");
+    assert.equal(assertImageContent(upload(JPEG, "image/jpg")), "image/jpeg");
+  });
+
+  it("rejects SVG, unknown content and mismatched types", () => {
+    assert.throws(() => assertImageContent(upload(Buffer.from("<svg/>"), "image/png")), /SVG images are not allowed/);
+    assert.throws(() => assertImageContent(upload(Buffer.from("text"), "image/png")), ValidationError);
+    assert.throws(() => assertImageContent(upload(GIF, "image/png")), /does not match its declared type/);
+  });
+});
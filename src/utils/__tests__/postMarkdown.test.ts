@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { parsePostMarkdown, readImportFiles, serializePostMarkdown } from "../postMarkdown";
+import { ValidationError } from "../errors";
+
+const zipOf = async (files: Record<string, string>) => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, text]) => zip.file(name, text));
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+};
+
+describe("parsePostMarkdown", () => {
+  it("splits front matter from the body", () => {
+    const { frontMatter, content } = parsePostMarkdown("\uFEFF---\r\ntitle: Hello\r\nstatus: draft\r\n---\r\n\r\n# Body\n");
+    assert.deepEqual(frontMatter, { title: "Hello", status: "draft" });
+    assert.equal(content, "# Body\n");
+  });
+
+  it("rejects files without a front matter mapping", () => {
+    assert.throws(() => parsePostMarkdown("# Just markdown"), /Missing YAML front matter/);
+    assert.throws(() => parsePostMarkdown("---\n- a\n- b\n---\nbody"), /must be a YAML mapping/);
+    assert.throws(() => parsePostMarkdown("---\ntitle: [oops\n---\nbody"), /Invalid YAML front matter/);
+  });
+
+  it("reads back what serializePostMarkdown writes", () => {
+    const text = serializePostMarkdown({
+      title: "Hello: world",
+      slug: "hello-world",
+      categories: { name: "News" },
+      post_status: { name: "Published" },
+      published_at: "2025-01-02T03:04:05.000Z",
+      image: null,
+      description: "Short",
+      content: "Body text\n\n",
+    });
+
+    const { frontMatter, content } = parsePostMarkdown(text);
+    assert.equal(frontMatter.title, "Hello: world");
+    assert.equal(frontMatter.slug, "hello-world");
+    assert.equal(frontMatter.category, "News");
+    assert.equal(frontMatter.status, "published");
+    assert.equal(frontMatter.image, null);
+    assert.equal(content, "Body text\n");
+  });
+});
+
+describe("readImportFiles", () => {
+  it("reads a single Markdown upload as is", async () => {
+    assert.deepEqual(await readImportFiles("post.md", Buffer.from("hello")), [{ name: "post.md", text: "hello" }]);
+  });
+
+  it("reads Markdown files from a zip in name order, skipping hidden and other files", async () => {
+    const buffer = await zipOf({
+      "b.md": "second",
+      "a/first.markdown": "first",
+      "notes.txt": "ignored",
+      ".hidden.md": "ignored",
+      "__MACOSX/a.md": "ignored",
+    });
+
+    assert.deepEqual(await readImportFiles("posts.zip", buffer), [
+      { name: "a/first.markdown", text: "first" },
+      { name: "b.md", text: "second" },
+    ]);
+  });
+
+  it("rejects uploads that are not a zip or hold no Markdown", async () => {
+    await assert.rejects(readImportFiles("posts.zip", Buffer.from("not a zip")), ValidationError);
+    await assert.rejects(readImportFiles("posts.zip", await zipOf({ "a.txt": "x" })), /does not contain any Markdown/);
+  });
+
+  it("stops inflating a file once it passes the size limit", async () => {
+    const buffer = await zipOf({ "bomb.md": "x".repeat(4 * 1024 * 1024) });
+    assert.ok(buffer.length < 64 * 1024);
+    await assert.rejects(readImportFiles("posts.zip", buffer), /bomb\.md is larger than 1024 KB/);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatPostETag, parseIfMatch } from "../postVersion";
+import { AppError, ValidationError } from "../errors";
+
+describe("parseIfMatch", () => {
+  it("accepts the ETag as sent by GET, weak or bare", () => {
+    assert.equal(parseIfMatch(formatPostETag(7)), 7);
+    assert.equal(parseIfMatch('W/"12"'), 12);
+    assert.equal(parseIfMatch(" 3 "), 3);
+  });
+
+  it("requires the header with a 428", () => {
+    assert.throws(() => parseIfMatch(undefined), (error: unknown) =>
+      error instanceof AppError && error.statusCode === 428);
+    assert.throws(() => parseIfMatch(""), (error: unknown) =>
+      error instanceof AppError && error.statusCode === 428);
+  });
+
+  it("rejects anything that is not a version", () => {
+    assert.throws(() => parseIfMatch("*"), ValidationError);
+    assert.throws(() => parseIfMatch('"abc"'), ValidationError);
+    assert.throws(() => parseIfMatch('"1", "2"'), ValidationError);
+  });
+});
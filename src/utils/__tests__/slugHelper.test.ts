@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateSlug, isSlugConflict, normalizeSlug, resolveSlugForUpdate } from "../slugHelper";
+
+describe("generateSlug", () => {
+  it("lowercases and joins words with single hyphens", () => {
+    assert.equal(generateSlug("  Hello, World!  "), "hello-world");
+    assert.equal(generateSlug("snake_case -- and   spaces"), "snake-case-and-spaces");
+  });
+
+  it("keeps Thai letters and combining marks", () => {
+    assert.equal(generateSlug("สวัสดี ชาวโลก"), "สวัสดี-ชาวโลก");
+  });
+
+  it("falls back when nothing usable is left", () => {
+    assert.equal(generateSlug("!!!"), "post");
+    assert.equal(generateSlug("???", "series"), "series");
+  });
+
+  it("truncates by code point without leaving a trailing hyphen", () => {
+    const slug = generateSlug(`${"ก".repeat(119)} ข`);
+    assert.equal(Array.from(slug).length, 119);
+    assert.ok(!slug.endsWith("-"));
+  });
+});
+
+describe("normalizeSlug", () => {
+  it("trims, lowercases and NFC-normalizes", () => {
+    assert.equal(normalizeSlug("  Hello-World "), "hello-world");
+    assert.equal(normalizeSlug("café"), "café");
+  });
+});
+
+describe("resolveSlugForUpdate", () => {
+  it("keeps a custom slug while the title is unchanged", async () => {
+    assert.equal(await resolveSlugForUpdate(1, " My Post ", { slug: "imported-slug", title: "My Post" }), "imported-slug");
+  });
+
+  it("keeps the slug when a changed title still maps to it", async () => {
+    assert.equal(await resolveSlugForUpdate(1, "My post!", { slug: "my-post-2", title: "My Post" }), "my-post-2");
+  });
+});
+
+describe("isSlugConflict", () => {
+  it("recognises the blog_posts slug unique violation only", () => {
+    assert.ok(isSlugConflict(new Error('duplicate key value violates unique constraint "blog_posts_slug_key"')));
+    assert.ok(isSlugConflict({ code: "23505", message: 'duplicate key value violates unique constraint "blog_posts_slug_key"' }));
+    assert.ok(!isSlugConflict(new Error('duplicate key value violates unique constraint "tags_slug_key"')));
+    assert.ok(!isSlugConflict(null));
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getPublicPath, LocalStorageDriver } from "../storage";
+import { ValidationError } from "../errors";
+
+describe("LocalStorageDriver", () => {
+  const storage = new LocalStorageDriver();
+
+  it("refuses paths that escape the bucket folder", async () => {
+    for (const filePath of ["../other-bucket/file.jpg", "public/../../secret.txt", "/etc/passwd"]) {
+      await assert.rejects(storage.put("post-images", filePath, Buffer.from("x")), ValidationError);
+      await assert.rejects(storage.delete("post-images", [filePath]), ValidationError);
+      await assert.rejects(storage.list("post-images", filePath), ValidationError);
+    }
+  });
+
+  it("refuses bucket names that are not plain slugs", async () => {
+    for (const bucket of ["..", "../uploads", "post-images/../x", "Post_Images"]) {
+      await assert.rejects(storage.delete(bucket, ["file.jpg"]), ValidationError);
+    }
+  });
+
+  it("builds public paths under the bucket", () => {
+    assert.equal(storage.publicPathPrefix("post-images"), "/uploads/post-images/");
+    assert.ok(storage.publicUrl("post-images", "public/a b.jpg").endsWith("/uploads/post-images/public/a%20b.jpg"));
+  });
+
+  it("drops the host from public paths used to match saved URLs", () => {
+    assert.equal(getPublicPath(storage, "post-images", "public/a b.jpg"), "/uploads/post-images/public/a%20b.jpg");
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getTagSlug, resolvePostTags } from "../tagHelper";
+import { ValidationError } from "../errors";
+
+// Fails the test if a check that should stop early reaches the database
+const noDatabase = new Proxy({}, { get: () => assert.fail("unexpected database call") }) as SupabaseClient;
+
+describe("getTagSlug", () => {
+  it("slugifies names with letters or numbers", () => {
+    assert.equal(getTagSlug("Node JS"), "node-js");
+    assert.equal(getTagSlug("ภาษาไทย"), "ภาษาไทย");
+  });
+
+  it("rejects symbol-only and emoji-only names instead of using a placeholder", () => {
+    assert.throws(() => getTagSlug("++"), ValidationError);
+    assert.throws(() => getTagSlug("🔥🔥"), ValidationError);
+  });
+});
+
+describe("resolvePostTags", () => {
+  it("rejects different names that would become the same tag", async () => {
+    await assert.rejects(resolvePostTags(noDatabase, ["C++", "C"]), /would be the same tag/);
+    await assert.rejects(resolvePostTags(noDatabase, ["C#", "c"]), /would be the same tag/);
+  });
+
+  it("rejects a symbol-only name before touching the database", async () => {
+    await assert.rejects(resolvePostTags(noDatabase, ["react", "!!!"]), ValidationError);
+  });
+});
@@ -0,0 +1,51 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DatabaseError } from "./errors";
+import { generateSlug } from "./slugHelper";
+
+// Read a category filter from the query string. Accepts repeated parameters
+// (?category=1&category=news) and comma-separated values (?category=1,news).
+export function parseCategoryFilter(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+
+  return values
+    .filter((item): item is string => typeof item === "string")
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Resolve category ids, slugs or names to category ids. Unknown values are ignored,
+// so the result can be empty even when filters were given.
+export async function resolveCategoryIds(supabase: SupabaseClient, values: string[]): Promise<number[]> {
+  const ids = new Set<number>();
+  const slugs = new Set<string>();
+  const names = new Set<string>();
+
+  values.forEach((value) => {
+    if (/^\d+$/.test(value)) {
+      ids.add(Number(value));
+    } else {
+      // Names slugify to their category's slug, so both forms are accepted
+      slugs.add(generateSlug(value, "category"));
+      names.add(value);
+    }
+  });
+
+  if (slugs.size > 0) {
+    // Categories created before Unicode slugs (e.g. Thai names) have slugs the current
+    // generator does not produce, so they are matched by name as well
+    const [bySlug, byName] = await Promise.all([
+      supabase.from("categories").select("id").in("slug", Array.from(slugs)),
+      supabase.from("categories").select("id").in("name", Array.from(names)),
+    ]);
+
+    const error = bySlug.error || byName.error;
+    if (error) {
+      throw new DatabaseError(`Failed to fetch categories: ${error.message}`);
+    }
+
+    [...(bySlug.data || []), ...(byName.data || [])].forEach((category: any) => ids.add(category.id));
+  }
+
+  return Array.from(ids);
+}
@@ -0,0 +1,46 @@
+// Site settings used for absolute links in feeds, sitemaps and robots.txt
+export const siteConfig = {
+  // Public URL of the blog frontend (no trailing slash)
+  siteUrl: (process.env.SITE_URL || "https://leo-shin-blog-app.vercel.app").replace(/\/+$/, ""),
+  // Public URL of this API, used for self links in feeds (no trailing slash)
+  apiUrl: (process.env.API_URL || "").replace(/\/+$/, ""),
+  title: process.env.SITE_TITLE || "LeoShin Blog",
+  description: process.env.SITE_DESCRIPTION || "Latest posts from LeoShin Blog",
+  language: process.env.SITE_LANGUAGE || "th",
+  // Frontend paths; :slug, :id, :username and :token are replaced per item
+  postPath: process.env.POST_PATH || "/post/:slug",
+  categoryPath: process.env.CATEGORY_PATH || "/category/:slug",
+  authorPath: process.env.AUTHOR_PATH || "/author/:username",
+  // Frontend page that renders a draft from GET /posts/preview/:token
+  previewPath: process.env.PREVIEW_PATH || "/preview/:token",
+  feedItemLimit: parseInt(process.env.FEED_ITEM_LIMIT || "20", 10),
+  // Where /sitemap.xml and /sitemaps/* are reachable publicly; defaults to the site URL,
+  // assuming the frontend proxies them to this API
+  sitemapBaseUrl: (process.env.SITEMAP_BASE_URL || process.env.SITE_URL || "https://leo-shin-blog-app.vercel.app").replace(/\/+$/, ""),
+  // Comma-separated frontend paths crawlers should skip
+  robotsDisallow: (process.env.ROBOTS_DISALLOW || "/admin").split(",").map((path) => path.trim()).filter(Boolean),
+};
+
+// Largest accepted upload per storage bucket, in MB
+export const uploadConfig = {
+  maxFileSizeMb: {
+    "post-images": parseInt(process.env.POST_IMAGE_MAX_MB || "10", 10),
+    "profile-images": parseInt(process.env.PROFILE_IMAGE_MAX_MB || "5", 10),
+  },
+};
+
+// Where uploaded files are stored: "supabase" (Storage buckets) or "local" (files on disk,
+// served by this API under localPublicPath; meant for offline development and tests)
+export const storageConfig = {
+  driver: (process.env.STORAGE_DRIVER || "supabase").toLowerCase(),
+  localDir: process.env.LOCAL_STORAGE_DIR || "uploads",
+  localPublicPath: "/uploads",
+};
+
+// Build an absolute frontend URL from a path template like "/post/:slug"
+export function buildSiteUrl(pathTemplate: string, params: Record<string, string | number> = {}): string {
+  const path = pathTemplate.replace(/:(\w+)/g, (match, key) =>
+    params[key] !== undefined ? encodeURIComponent(String(params[key])) : match
+  );
+  return `${siteConfig.siteUrl}${path}`;
+}
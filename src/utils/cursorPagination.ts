@@ -0,0 +1,81 @@
+import { ValidationError } from "./errors";
+
+// Keyset ("cursor") pagination over an ordering of (column, id). The cursor is the
+// sort value and id of the last item on the page, so new items never shift pages.
+
+interface CursorPayload {
+  // Name of the ordering the cursor belongs to, so a cursor cannot be reused with another sort
+  s: string;
+  v: string | number | null;
+  id: number;
+}
+
+export interface CursorPosition {
+  value: string | number | null;
+  id: number;
+}
+
+export function encodeCursor(sortKey: string, value: string | number | null, id: number): string {
+  const payload: CursorPayload = { s: sortKey, v: value ?? null, id };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+// Decode an opaque ?after= cursor; throws a ValidationError when it is malformed
+// or was issued for a different ordering
+export function decodeCursor(cursor: string, sortKey: string): CursorPosition {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new ValidationError("Invalid cursor");
+  }
+
+  const valueOk = payload?.v === null || typeof payload?.v === "string" || typeof payload?.v === "number";
+  if (!payload || payload.s !== sortKey || !valueOk || !Number.isInteger(payload.id)) {
+    throw new ValidationError("Invalid cursor");
+  }
+
+  return { value: payload.v, id: payload.id };
+}
+
+// Quote a value for a PostgREST or() filter (timestamps contain reserved characters)
+const quote = (value: string | number) =>
+  typeof value === "number" ? String(value) : `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// Add the "rows after the cursor" condition to a query ordered by
+// `column` (nulls last) and then `id`, both in the same direction
+export function applyCursor<Q extends { or: (filters: string) => Q }>(
+  query: Q,
+  column: string,
+  ascending: boolean,
+  position: CursorPosition
+): Q {
+  const op = ascending ? "gt" : "lt";
+
+  if (position.value === null) {
+    // Nulls sort last, so only the remaining null rows come after a null cursor
+    return query.or(`and(${column}.is.null,id.${op}.${position.id})`);
+  }
+
+  const value = quote(position.value);
+  return query.or(
+    `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${position.id}),${column}.is.null`
+  );
+}
+
+// Cursor for the page after `items`, or null when this was the last page.
+// Callers fetch limit + 1 rows; the extra row only signals that another page exists.
+export function buildNextCursor<T extends Record<string, any>>(
+  items: T[],
+  limit: number,
+  sortKey: string,
+  column: string
+): { items: T[]; nextCursor: string | null } {
+  if (items.length <= limit) {
+    return { items, nextCursor: null };
+  }
+
+  const pageItems = items.slice(0, limit);
+  const last = pageItems[pageItems.length - 1];
+  return { items: pageItems, nextCursor: encodeCursor(sortKey, last[column] ?? null, Number(last.id)) };
+}
@@ -44,8 +44,12 @@ export class ForbiddenError extends AppError {
 }
 
 export class ConflictError extends AppError {
-  constructor(message: string) {
+  // Extra context for the client, e.g. the current version of a stale record
+  public readonly details?: Record<string, unknown>;
+
+  constructor(message: string, details?: Record<string, unknown>) {
     super(message, 409);
+    this.details = details;
   }
 }
 
@@ -57,6 +61,7 @@ export interface ErrorResponse {
     statusCode: number;
     timestamp: string;
     path: string;
+    details?: Record<string, unknown>;
     stack?: string;
   };
 }
@@ -0,0 +1,119 @@
+// Builders for RSS 2.0, Atom 1.0 and JSON Feed 1.1 from one normalized feed shape
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  url: string;
+  description: string;
+  author?: string;
+  category?: string;
+  publishedAt: Date;
+  updatedAt: Date;
+  image?: string | null;
+}
+
+export interface FeedData {
+  title: string;
+  description: string;
+  siteUrl: string;
+  language: string;
+  // Self links for each format, used by the feeds to point at themselves
+  rssUrl: string;
+  atomUrl: string;
+  jsonUrl: string;
+  updatedAt: Date;
+  items: FeedItem[];
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+export function buildRss(feed: FeedData): string {
+  const items = feed.items.map((item) => [
+    "    <item>",
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+    `      <description>${escapeXml(item.description)}</description>`,
+    item.author ? `      <dc:creator>${escapeXml(item.author)}</dc:creator>` : "",
+    item.category ? `      <category>${escapeXml(item.category)}</category>` : "",
+    `      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+    "    </item>",
+  ].filter(Boolean).join("\n"));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.siteUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <language>${escapeXml(feed.language)}</language>`,
+    `    <lastBuildDate>${feed.updatedAt.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feed.rssUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+export function buildAtom(feed: FeedData): string {
+  const entries = feed.items.map((item) => [
+    "  <entry>",
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link href="${escapeXml(item.url)}"/>`,
+    `    <id>${escapeXml(item.id)}</id>`,
+    `    <published>${item.publishedAt.toISOString()}</published>`,
+    `    <updated>${item.updatedAt.toISOString()}</updated>`,
+    `    <summary>${escapeXml(item.description)}</summary>`,
+    item.author ? `    <author><name>${escapeXml(item.author)}</name></author>` : "",
+    item.category ? `    <category term="${escapeXml(item.category)}"/>` : "",
+    "  </entry>",
+  ].filter(Boolean).join("\n"));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(feed.language)}">`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link href="${escapeXml(feed.siteUrl)}"/>`,
+    `  <link href="${escapeXml(feed.atomUrl)}" rel="self" type="application/atom+xml"/>`,
+    `  <id>${escapeXml(feed.atomUrl)}</id>`,
+    `  <updated>${feed.updatedAt.toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+export function buildJsonFeed(feed: FeedData): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.siteUrl,
+    feed_url: feed.jsonUrl,
+    language: feed.language,
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.description,
+      content_text: item.description,
+      ...(item.image && { image: item.image }),
+      date_published: item.publishedAt.toISOString(),
+      date_modified: item.updatedAt.toISOString(),
+      ...(item.author && { authors: [{ name: item.author }] }),
+      ...(item.category && { tags: [item.category] }),
+    })),
+  }, null, 2);
+}
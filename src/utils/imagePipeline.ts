@@ -0,0 +1,122 @@
+import sharp from "sharp";
+import { ValidationError } from "./errors";
+import { StorageDriver } from "./storage";
+
+// Responsive sizes generated for every upload (max width in pixels)
+export const IMAGE_VARIANTS = {
+  thumbnail: 320,
+  medium: 768,
+  large: 1600,
+} as const;
+
+export type ImageVariantName = keyof typeof IMAGE_VARIANTS;
+
+const WEBP_QUALITY = 80;
+
+interface ProcessedImage {
+  buffer: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedUpload {
+  original: ProcessedImage;
+  variants: Partial<Record<ImageVariantName, ProcessedImage>>;
+}
+
+export interface ImageVariantUrl {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface StoredImage {
+  url: string;
+  path: string;
+  variants: Partial<Record<ImageVariantName, ImageVariantUrl & { path: string }>>;
+  srcset: string;
+}
+
+// Re-encode the original without metadata (EXIF, GPS, comments) and build the WebP variants.
+// Orientation from EXIF is applied first so stripping it does not rotate the photo.
+export async function processImage(buffer: Buffer, mimeType: string): Promise<ProcessedUpload> {
+  let original: ProcessedImage;
+
+  try {
+    if (mimeType === "image/gif") {
+      // GIFs carry no EXIF and re-encoding would drop the animation, so keep them as sent
+      const { width = 0, height = 0 } = await sharp(buffer).metadata();
+      original = { buffer, contentType: mimeType, width, height };
+    } else {
+      const { data, info } = await sharp(buffer).rotate().toBuffer({ resolveWithObject: true });
+      original = { buffer: data, contentType: `image/${info.format}`, width: info.width, height: info.height };
+    }
+  } catch {
+    throw new ValidationError("Unsupported or corrupt image file");
+  }
+
+  const variants: ProcessedUpload["variants"] = {};
+  for (const [name, maxWidth] of Object.entries(IMAGE_VARIANTS) as [ImageVariantName, number][]) {
+    // No upscaling: only the thumbnail is made for images narrower than a size
+    if (name !== "thumbnail" && original.width <= maxWidth) {
+      continue;
+    }
+
+    const { data, info } = await sharp(original.buffer)
+      .resize({ width: maxWidth, withoutEnlargement: true })
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+
+    variants[name] = { buffer: data, contentType: "image/webp", width: info.width, height: info.height };
+  }
+
+  return { original, variants };
+}
+
+// Storage path of a variant next to the original, e.g. public/post-1-photo-medium.webp
+export function getVariantPath(filePath: string, name: ImageVariantName): string {
+  return `${filePath.replace(/\.[^./]+$/, "")}-${name}.webp`;
+}
+
+// srcset attribute value for the stored variants, smallest first
+export function buildSrcset(variants: StoredImage["variants"]): string {
+  return Object.values(variants)
+    .filter((variant): variant is NonNullable<typeof variant> => !!variant)
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(", ");
+}
+
+// Upload the processed original and its variants to a storage bucket
+export async function storeProcessedImage(
+  storage: StorageDriver,
+  bucketName: string,
+  filePath: string,
+  processed: ProcessedUpload
+): Promise<StoredImage> {
+  const uploads = [
+    { path: filePath, image: processed.original },
+    ...Object.entries(processed.variants).map(([name, image]) => ({
+      path: getVariantPath(filePath, name as ImageVariantName),
+      image: image as ProcessedImage,
+    })),
+  ];
+
+  for (const { path, image } of uploads) {
+    await storage.put(bucketName, path, image.buffer, image.contentType);
+  }
+
+  const variants: StoredImage["variants"] = {};
+  for (const [name, image] of Object.entries(processed.variants) as [ImageVariantName, ProcessedImage][]) {
+    const path = getVariantPath(filePath, name);
+    variants[name] = { path, url: storage.publicUrl(bucketName, path), width: image.width, height: image.height };
+  }
+
+  return {
+    url: storage.publicUrl(bucketName, filePath),
+    path: filePath,
+    variants,
+    srcset: buildSrcset(variants),
+  };
+}
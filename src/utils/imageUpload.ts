@@ -0,0 +1,150 @@
+import { Request, Response, NextFunction } from "express";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { randomUUID } from "crypto";
+import multer from "multer";
+import { AppError, ValidationError } from "./errors";
+import { uploadConfig } from "./config";
+import { processImage, storeProcessedImage } from "./imagePipeline";
+import { recordMedia } from "./mediaLibrary";
+import { getStorage } from "./storage";
+
+export type ImageBucket = keyof typeof uploadConfig.maxFileSizeMb;
+
+// Raster formats accepted everywhere. SVG is rejected: it can carry scripts
+// that run when the file is opened from the storage URL.
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+// File name prefix per bucket, e.g. post-<uuid>-photo.jpg
+const FILE_PREFIXES: Record<ImageBucket, string> = {
+  "post-images": "post",
+  "profile-images": "profile",
+};
+
+// Some clients still send the non-standard image/jpg
+const normalizeMimeType = (mimeType: string) => (mimeType === "image/jpg" ? "image/jpeg" : mimeType.toLowerCase());
+
+// Identify the image format from the file signature, ignoring what the client declared
+export function detectImageType(buffer: Buffer): string | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.toString("ascii", 0, 6))) {
+    return "image/gif";
+  }
+  if (buffer.length >= 12 && buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  // Text that opens like XML/SVG, possibly after a BOM or whitespace
+  if (/^\uFEFF?\s*<(\?xml|svg|!DOCTYPE svg)/i.test(buffer.toString("utf8", 0, 256))) {
+    return "image/svg+xml";
+  }
+  return null;
+}
+
+// Make sure the file content is one of the accepted formats and matches the declared type
+export function assertImageContent(file: Express.Multer.File): string {
+  const detectedType = detectImageType(file.buffer);
+
+  if (detectedType === "image/svg+xml") {
+    throw new ValidationError("SVG images are not allowed. Upload a JPEG, PNG, GIF or WebP image.");
+  }
+  if (!detectedType || !IMAGE_EXTENSIONS[detectedType]) {
+    throw new ValidationError("File content is not a supported image (JPEG, PNG, GIF or WebP)");
+  }
+  if (detectedType !== normalizeMimeType(file.mimetype)) {
+    throw new ValidationError(`File content (${detectedType}) does not match its declared type (${file.mimetype})`);
+  }
+
+  return detectedType;
+}
+
+// Collision-free storage name that still hints at the original file name
+export function buildUploadFileName(bucket: ImageBucket, originalName: string, mimeType: string): string {
+  const baseName = originalName
+    .replace(/\.[^.]*$/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40) || "image";
+
+  return `${FILE_PREFIXES[bucket]}-${randomUUID()}-${baseName}.${IMAGE_EXTENSIONS[mimeType]}`;
+}
+
+// Multer middleware for a single "image" field, limited by the bucket's configured size.
+// Multer errors become 400/413 responses instead of falling through as 500s.
+export function imageUpload(bucket: ImageBucket) {
+  const maxSizeMb = uploadConfig.maxFileSizeMb[bucket];
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: maxSizeMb * 1024 * 1024,
+      files: 1,
+    },
+    fileFilter: (req, file, cb) => {
+      // Quick check on the declared type; the content itself is checked after upload
+      if (IMAGE_EXTENSIONS[normalizeMimeType(file.mimetype)]) {
+        cb(null, true);
+      } else {
+        cb(new ValidationError("Invalid file type. Only JPEG, PNG, GIF and WebP are allowed."));
+      }
+    }
+  }).single("image");
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return next(error.code === "LIMIT_FILE_SIZE"
+          ? new AppError(`Image must be ${maxSizeMb}MB or smaller`, 413)
+          : new ValidationError(error.message));
+      }
+      next(error);
+    });
+  };
+}
+
+// Check, process, store and record an uploaded image; returns the response payload
+export async function uploadImage(
+  supabase: SupabaseClient,
+  bucket: ImageBucket,
+  file: Express.Multer.File,
+  uploadedBy: string
+) {
+  const mimeType = assertImageContent(file);
+  const fileName = buildUploadFileName(bucket, file.originalname, mimeType);
+  const filePath = `public/${fileName}`;
+
+  // Strip metadata and build the responsive WebP variants before storing anything
+  const processed = await processImage(file.buffer, mimeType);
+  const stored = await storeProcessedImage(getStorage(supabase), bucket, filePath, processed);
+
+  // Keep track of the upload in the media library
+  const media = await recordMedia(supabase, {
+    bucket,
+    path: filePath,
+    url: stored.url,
+    fileName,
+    originalName: file.originalname,
+    mimeType: processed.original.contentType,
+    buffer: processed.original.buffer,
+    uploadedBy,
+    width: processed.original.width,
+    height: processed.original.height,
+    variants: stored.variants
+  });
+
+  return {
+    imageUrl: stored.url,
+    fileName,
+    mediaId: media.id,
+    variants: stored.variants,
+    srcset: stored.srcset
+  };
+}
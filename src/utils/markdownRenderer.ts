@@ -0,0 +1,102 @@
+import { Marked, Tokens } from "marked";
+import sanitizeHtml from "sanitize-html";
+import { generateSlug } from "./slugHelper";
+
+const WORDS_PER_MINUTE = 200;
+
+export interface TocEntry {
+  level: number;
+  text: string;
+  id: string;
+}
+
+export interface RenderedContent {
+  content_html: string;
+  toc: TocEntry[];
+  word_count: number;
+  reading_time: number; // minutes
+}
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: sanitizeHtml.defaults.allowedTags.concat(["img", "h1", "h2", "del", "input"]),
+  allowedAttributes: {
+    a: ["href", "name", "title", "target", "rel"],
+    img: ["src", "alt", "title", "width", "height"],
+    code: ["class"],
+    th: ["align"],
+    td: ["align"],
+    input: ["type", "checked", "disabled"],
+    h1: ["id"],
+    h2: ["id"],
+    h3: ["id"],
+    h4: ["id"],
+    h5: ["id"],
+    h6: ["id"],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  allowedClasses: {
+    code: [/^language-[\w-]+$/],
+  },
+  // Task list checkboxes are the only inputs Markdown produces
+  exclusiveFilter: (frame) => frame.tag === "input" && frame.attribs.type !== "checkbox",
+};
+
+// Render Markdown to sanitized HTML with heading anchors, a table of contents,
+// word count and estimated reading time
+export function renderMarkdown(markdown: string): RenderedContent {
+  const toc: TocEntry[] = [];
+  const usedIds = new Map<string, number>();
+
+  // A fresh instance per render keeps heading ids unique within one post only
+  const marked = new Marked({ gfm: true });
+  marked.use({
+    renderer: {
+      heading(this: any, { tokens, depth, text }: Tokens.Heading) {
+        const base = generateSlug(text, "section");
+        const seen = usedIds.get(base) || 0;
+        usedIds.set(base, seen + 1);
+        const id = seen === 0 ? base : `${base}-${seen + 1}`;
+
+        const inner = this.parser.parseInline(tokens);
+        toc.push({ level: depth, text: stripTags(inner), id });
+        return `<h${depth} id="${id}">${inner}</h${depth}>\n`;
+      },
+    },
+  });
+
+  const rawHtml = marked.parse(markdown || "", { async: false }) as string;
+  const contentHtml = sanitizeHtml(rawHtml, SANITIZE_OPTIONS);
+  const wordCount = countWords(stripTags(contentHtml));
+
+  return {
+    content_html: contentHtml,
+    toc,
+    word_count: wordCount,
+    reading_time: Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE)),
+  };
+}
+
+// Count words with Intl.Segmenter when available, since Thai text has no spaces between words
+export function countWords(text: string): number {
+  const Segmenter = (Intl as any).Segmenter;
+  if (Segmenter) {
+    let count = 0;
+    for (const segment of new Segmenter(undefined, { granularity: "word" }).segment(text)) {
+      if (segment.isWordLike) count++;
+    }
+    return count;
+  }
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function stripTags(html: string): string {
+  return sanitizeHtml(html, { allowedTags: [], allowedAttributes: {} })
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
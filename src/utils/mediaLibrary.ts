@@ -0,0 +1,168 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DatabaseError } from "./errors";
+import { escapeLikePattern } from "./postSearch";
+
+// Columns that can point at a stored file; content is searched for embedded URLs.
+// Shared by the media delete check and storage garbage collection.
+export const MEDIA_REFERENCE_SOURCES = [
+  { table: "blog_posts", columns: ["image", "content"] }, // Trashed posts included, they can be restored
+  { table: "post_revisions", columns: ["image", "content"] }, // Restoring a revision brings its images back
+  { table: "users", columns: ["profile_pic"] },
+  { table: "comments", columns: ["image"] }, // Commenter avatar copied at comment time
+];
+
+export interface MediaReference {
+  table: string;
+  ids: (number | string)[];
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface MediaUpload {
+  bucket: string;
+  path: string;
+  url: string;
+  fileName: string;
+  originalName?: string;
+  mimeType: string;
+  buffer: Buffer;
+  uploadedBy: string;
+  width?: number;
+  height?: number;
+  // Resized copies stored next to the file, see utils/imagePipeline.ts
+  variants?: Record<string, { path: string; url: string; width: number; height: number }>;
+}
+
+// Read width and height from the image header (PNG, GIF, WebP and JPEG).
+// Returns null for anything else or a truncated file.
+export function getImageDimensions(buffer: Buffer): ImageDimensions | null {
+  try {
+    // PNG: IHDR is always the first chunk
+    if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+      return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+
+    // GIF: logical screen size right after the signature
+    if (buffer.length >= 10 && buffer.toString("ascii", 0, 4) === "GIF8") {
+      return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+
+    // WebP: lossy (VP8), lossless (VP8L) or extended (VP8X) bitstream
+    if (buffer.length >= 30 && buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") {
+      const chunk = buffer.toString("ascii", 12, 16);
+      if (chunk === "VP8 ") {
+        return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+      }
+      if (chunk === "VP8L") {
+        const bits = buffer.readUInt32LE(21);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === "VP8X") {
+        return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+      }
+      return null;
+    }
+
+    // JPEG: walk the segments until a start-of-frame marker
+    if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xff) {
+          return null;
+        }
+        const marker = buffer[offset + 1];
+        if (marker === 0xff) {
+          offset += 1; // Fill byte
+          continue;
+        }
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+        }
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+      }
+    }
+  } catch {
+    // Truncated header
+  }
+
+  return null;
+}
+
+// Record an uploaded file in the media library and return the row
+export async function recordMedia(supabase: SupabaseClient, upload: MediaUpload) {
+  const dimensions = upload.width && upload.height
+    ? { width: upload.width, height: upload.height }
+    : getImageDimensions(upload.buffer);
+
+  const { data, error } = await supabase
+    .from("media")
+    .insert({
+      bucket: upload.bucket,
+      path: upload.path,
+      url: upload.url,
+      file_name: upload.fileName,
+      original_name: upload.originalName || null,
+      mime_type: upload.mimeType,
+      size_bytes: upload.buffer.length,
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      variants: upload.variants || {},
+      uploaded_by: upload.uploadedBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new DatabaseError(`Failed to record media: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Posts that still use a file (or one of its variants), as their cover image or inside
+// the content. Trashed posts count too, since they can still be restored.
+// publicPaths are host-independent (see getPublicPath in utils/storage.ts).
+export async function findPostsUsingMedia(supabase: SupabaseClient, publicPaths: string[]) {
+  const results = await Promise.all(publicPaths.flatMap((publicPath) => [
+    supabase.from("blog_posts").select("id, title, slug").ilike("image", `%${escapeLikePattern(publicPath)}%`),
+    supabase.from("blog_posts").select("id, title, slug").ilike("content", `%${escapeLikePattern(publicPath)}%`),
+  ]));
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) {
+    throw new DatabaseError(`Failed to check media usage: ${failed.error.message}`);
+  }
+
+  const posts = new Map<number, any>();
+  results.forEach((result) => (result.data || []).forEach((post: any) => posts.set(post.id, post)));
+  return Array.from(posts.values());
+}
+
+// Rows anywhere in MEDIA_REFERENCE_SOURCES that still use a file (or one of its variants),
+// grouped by table. Matched on host-independent public paths like storage garbage collection,
+// so a file GC would keep is never reported unused. Only tables with a match are returned.
+export async function findMediaReferences(supabase: SupabaseClient, publicPaths: string[]): Promise<MediaReference[]> {
+  const references: MediaReference[] = [];
+
+  for (const { table, columns } of MEDIA_REFERENCE_SOURCES) {
+    const results = await Promise.all(publicPaths.flatMap((publicPath) =>
+      columns.map((column) => supabase.from(table).select("id").ilike(column, `%${escapeLikePattern(publicPath)}%`))
+    ));
+
+    const failed = results.find((result) => result.error);
+    if (failed?.error) {
+      throw new DatabaseError(`Failed to check media usage in ${table}: ${failed.error.message}`);
+    }
+
+    const ids = new Set<number | string>();
+    results.forEach((result) => (result.data || []).forEach((row: any) => ids.add(row.id)));
+    if (ids.size > 0) {
+      references.push({ table, ids: Array.from(ids) });
+    }
+  }
+
+  return references;
+}
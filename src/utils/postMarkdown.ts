@@ -0,0 +1,373 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Readable } from "stream";
+import JSZip from "jszip";
+import { parse, stringify } from "yaml";
+import { DatabaseError, ValidationError } from "./errors";
+import { generateSlug, generateUniqueSlug, normalizeSlug } from "./slugHelper";
+import { resolveCategoryIds } from "./categoryHelper";
+import { PUBLISHED_STATUS_ID, resolvePublishedAt } from "./postScheduler";
+import { renderMarkdown } from "./markdownRenderer";
+
+// Front matter fields, in the order they are written
+export const FRONT_MATTER_FIELDS = ["title", "slug", "category", "status", "published_at", "image", "description"] as const;
+
+export type PostFrontMatter = Record<(typeof FRONT_MATTER_FIELDS)[number], string | null>;
+
+// Status names used in front matter, mapped to post_status ids
+const STATUS_IDS: Record<string, number> = { published: 1, draft: 2, scheduled: 3 };
+
+// Guards against oversized imports; a zip may hold many posts but each one is a single Markdown file
+export const MAX_IMPORT_FILES = 500;
+const MAX_MARKDOWN_FILE_BYTES = 1024 * 1024;
+const MAX_IMPORT_TOTAL_BYTES = 20 * 1024 * 1024;
+
+// Supabase returns at most 1000 rows per request, so posts are exported in batches
+const EXPORT_BATCH_SIZE = 1000;
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/;
+
+export interface ImportResult {
+  file: string;
+  action: "create" | "update" | "error";
+  slug?: string;
+  postId?: number;
+  errors?: string[];
+}
+
+// Write one post as Markdown with YAML front matter
+export function serializePostMarkdown(post: any): string {
+  const frontMatter: PostFrontMatter = {
+    title: post.title,
+    slug: post.slug || null,
+    category: post.categories?.name || null,
+    status: post.post_status?.name?.toLowerCase() || null,
+    published_at: post.published_at || null,
+    image: post.image || null,
+    description: post.description || null,
+  };
+
+  return `---\n${stringify(frontMatter)}---\n\n${(post.content || "").trimEnd()}\n`;
+}
+
+// Split a Markdown file into its front matter and body
+export function parsePostMarkdown(text: string): { frontMatter: Record<string, unknown>; content: string } {
+  const match = text.replace(/^\uFEFF/, "").match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    throw new ValidationError("Missing YAML front matter");
+  }
+
+  let frontMatter: unknown;
+  try {
+    frontMatter = parse(match[1]);
+  } catch (error) {
+    throw new ValidationError(`Invalid YAML front matter: ${error instanceof Error ? error.message : "parse error"}`);
+  }
+
+  if (!frontMatter || typeof frontMatter !== "object" || Array.isArray(frontMatter)) {
+    throw new ValidationError("Front matter must be a YAML mapping");
+  }
+
+  return { frontMatter: frontMatter as Record<string, unknown>, content: match[2].replace(/^\r?\n/, "") };
+}
+
+// File name inside the export zip
+function exportFileName(post: any, used: Set<string>): string {
+  const base = post.slug || `post-${post.id}`;
+  const name = used.has(base) ? `${base}-${post.id}` : base;
+  used.add(name);
+  return `${name}.md`;
+}
+
+// Zip of all posts that are not in the trash, optionally limited to one status
+export async function exportPostsZip(supabase: SupabaseClient, statusId?: number): Promise<{ zip: Buffer; count: number }> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  let count = 0;
+
+  for (let start = 0; ; start += EXPORT_BATCH_SIZE) {
+    let query = supabase
+      .from("blog_posts")
+      .select("id, title, slug, image, description, content, published_at, categories(name), post_status(name)")
+      .is("deleted_at", null)
+      .order("id", { ascending: true })
+      .range(start, start + EXPORT_BATCH_SIZE - 1);
+
+    if (statusId) {
+      query = query.eq("status_id", statusId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new DatabaseError(`Failed to fetch posts for export: ${error.message}`);
+    }
+
+    (data || []).forEach((post: any) => {
+      zip.file(exportFileName(post, usedNames), serializePostMarkdown(post));
+      count++;
+    });
+
+    if (!data || data.length < EXPORT_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  const buffer = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  return { zip: buffer, count };
+}
+
+// Inflate one zip entry, stopping as soon as it passes the per-file or remaining total limit.
+// Sizes in the zip header are written by the uploader and cannot be trusted, so a zip bomb
+// is caught by counting the bytes actually produced.
+function readZipEntry(entry: JSZip.JSZipObject, maxFileBytes: number, remainingBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream("nodebuffer") as Readable;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxFileBytes || size > remainingBytes) {
+        stream.destroy();
+        reject(new ValidationError(size > maxFileBytes
+          ? `${entry.name} is larger than ${maxFileBytes / 1024} KB`
+          : `The zip holds more than ${MAX_IMPORT_TOTAL_BYTES / 1024 / 1024} MB of Markdown`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+// Read the Markdown files of an upload: a zip of .md files or a single .md file
+export async function readImportFiles(fileName: string, buffer: Buffer): Promise<{ name: string; text: string }[]> {
+  if (/\.(md|markdown)$/i.test(fileName)) {
+    return [{ name: fileName, text: buffer.toString("utf8") }];
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ValidationError("Upload must be a zip of Markdown files or a single .md file");
+  }
+
+  const entries = Object.values(zip.files).filter((entry) =>
+    !entry.dir &&
+    /\.(md|markdown)$/i.test(entry.name) &&
+    !entry.name.split("/").some((part) => part.startsWith(".") || part === "__MACOSX")
+  );
+
+  if (entries.length === 0) {
+    throw new ValidationError("The zip does not contain any Markdown files");
+  }
+  if (entries.length > MAX_IMPORT_FILES) {
+    throw new ValidationError(`At most ${MAX_IMPORT_FILES} files can be imported at once`);
+  }
+
+  const files: { name: string; text: string }[] = [];
+  let totalBytes = 0;
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const bytes = await readZipEntry(entry, MAX_MARKDOWN_FILE_BYTES, MAX_IMPORT_TOTAL_BYTES - totalBytes);
+    totalBytes += bytes.length;
+    files.push({ name: entry.name, text: bytes.toString("utf8") });
+  }
+
+  return files;
+}
+
+const optionalString = (value: unknown) =>
+  value === undefined || value === null || value === "" ? null : String(value).trim();
+
+// Check one file's front matter with the same rules as validatePostData
+function validateFrontMatter(frontMatter: Record<string, unknown>, content: string) {
+  const errors: string[] = [];
+  const title = optionalString(frontMatter.title);
+  const description = optionalString(frontMatter.description);
+  const category = optionalString(frontMatter.category);
+  const status = (optionalString(frontMatter.status) || "draft").toLowerCase();
+  const publishedAt = frontMatter.published_at instanceof Date
+    ? frontMatter.published_at.toISOString()
+    : optionalString(frontMatter.published_at);
+  const image = optionalString(frontMatter.image);
+  const slug = optionalString(frontMatter.slug);
+
+  if (!title) {
+    errors.push("Title is required");
+  } else if (title.length > 200) {
+    errors.push("Title must be less than 200 characters");
+  }
+  if (!description) {
+    errors.push("Description is required");
+  } else if (description.length > 500) {
+    errors.push("Description must be less than 500 characters");
+  }
+  if (!content.trim()) {
+    errors.push("Content is required");
+  }
+  if (!category) {
+    errors.push("Category is required");
+  }
+  if (!STATUS_IDS[status]) {
+    errors.push(`Status must be one of: ${Object.keys(STATUS_IDS).join(", ")}`);
+  }
+  if (publishedAt && isNaN(Date.parse(publishedAt))) {
+    errors.push("Published date must be a valid date");
+  }
+  if (STATUS_IDS[status] === 3) {
+    if (!publishedAt) {
+      errors.push("Published date is required for scheduled posts");
+    } else if (Date.parse(publishedAt) <= Date.now()) {
+      errors.push("Scheduled publish date must be in the future");
+    }
+  }
+  if (image) {
+    try {
+      new URL(image);
+    } catch {
+      errors.push("Image must be a valid URL");
+    }
+  }
+  // Slugs must already be in the form generateSlug produces, so posts are matched by the slug as written
+  if (slug !== null && generateSlug(slug, "") !== normalizeSlug(slug)) {
+    errors.push("Slug may only contain lowercase letters, numbers and single hyphens");
+  }
+
+  return {
+    errors,
+    values: {
+      title: title || "",
+      description: description || "",
+      category: category || "",
+      statusId: STATUS_IDS[status],
+      publishedAt,
+      image,
+      slug: slug ? generateSlug(slug) : null,
+    },
+  };
+}
+
+// Create or update posts from Markdown files. Posts are matched by slug; files without
+// a slug always create a new post. With dryRun nothing is written, but every file is
+// checked and the report shows what would happen.
+export async function importPosts(
+  supabase: SupabaseClient,
+  files: { name: string; text: string }[],
+  options: { dryRun: boolean; editorId: string }
+): Promise<ImportResult[]> {
+  const results: ImportResult[] = [];
+  const seenSlugs = new Set<string>();
+  const categoryCache = new Map<string, number | undefined>();
+
+  for (const file of files) {
+    let parsed: { frontMatter: Record<string, unknown>; content: string };
+    try {
+      parsed = parsePostMarkdown(file.text);
+    } catch (error) {
+      results.push({ file: file.name, action: "error", errors: [(error as Error).message] });
+      continue;
+    }
+
+    const { errors, values } = validateFrontMatter(parsed.frontMatter, parsed.content);
+
+    if (values.slug) {
+      if (seenSlugs.has(values.slug)) {
+        errors.push(`Slug "${values.slug}" appears more than once in this import`);
+      }
+      seenSlugs.add(values.slug);
+    }
+
+    let categoryId: number | undefined;
+    if (values.category) {
+      if (!categoryCache.has(values.category)) {
+        const [id] = await resolveCategoryIds(supabase, [values.category]);
+        categoryCache.set(values.category, id);
+      }
+      categoryId = categoryCache.get(values.category);
+      if (!categoryId) {
+        errors.push(`Category "${values.category}" does not exist`);
+      }
+    }
+
+    let existing: any = null;
+    if (values.slug) {
+      const { data, error } = await supabase
+        .from("blog_posts")
+        .select("id, slug, status_id, published_at, deleted_at")
+        .eq("slug", values.slug)
+        .maybeSingle();
+
+      if (error) {
+        throw new DatabaseError(`Failed to fetch post: ${error.message}`);
+      }
+      if (data?.deleted_at) {
+        errors.push(`Slug "${values.slug}" belongs to a post in the trash`);
+      }
+      existing = data;
+
+      // A new post may not take a slug that another post uses or redirects from
+      if (!existing && await generateUniqueSlug(values.slug) !== values.slug) {
+        errors.push(`Slug "${values.slug}" is already used by another post`);
+      }
+    }
+
+    if (errors.length > 0) {
+      results.push({ file: file.name, action: "error", slug: values.slug || undefined, errors });
+      continue;
+    }
+
+    const action = existing ? "update" : "create";
+    if (options.dryRun) {
+      results.push({ file: file.name, action, slug: values.slug || undefined, postId: existing?.id });
+      continue;
+    }
+
+    // An imported published post keeps the date from its front matter
+    const publishedAt = values.statusId === PUBLISHED_STATUS_ID && values.publishedAt
+      ? new Date(values.publishedAt)
+      : resolvePublishedAt(values.statusId, values.publishedAt, existing || undefined);
+
+    const fields = {
+      title: values.title,
+      image: values.image,
+      category_id: categoryId,
+      description: values.description,
+      content: parsed.content,
+      status_id: values.statusId,
+      published_at: publishedAt,
+      ...renderMarkdown(parsed.content),
+    };
+
+    try {
+      const query = existing
+        ? supabase
+            .from("blog_posts")
+            .update({ ...fields, last_edited_by: options.editorId, updated_at: new Date() })
+            .eq("id", existing.id)
+        : supabase
+            .from("blog_posts")
+            .insert({
+              ...fields,
+              slug: values.slug || await generateUniqueSlug(values.title),
+              author_id: options.editorId,
+            });
+
+      const { data: post, error } = await query.select().single();
+      if (error) {
+        throw new DatabaseError(error.message);
+      }
+
+      results.push({ file: file.name, action, slug: post.slug, postId: post.id });
+    } catch (error) {
+      results.push({
+        file: file.name,
+        action: "error",
+        slug: values.slug || undefined,
+        errors: [`Failed to save post: ${(error as Error).message}`],
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,59 @@
+import { getSupabaseAdmin } from "./supabase";
+import { DatabaseError } from "./errors";
+
+// status_id values in post_status
+export const PUBLISHED_STATUS_ID = 1;
+export const DRAFT_STATUS_ID = 2;
+export const SCHEDULED_STATUS_ID = 3;
+
+interface ExistingPublishState {
+  status_id: number;
+  published_at: string | null;
+}
+
+// Work out published_at for a create or update.
+// A post that is already published keeps its original date when it is edited.
+export function resolvePublishedAt(
+  statusId: number,
+  requestedPublishedAt?: string | null,
+  existing?: ExistingPublishState
+): Date | string | null {
+  if (statusId === SCHEDULED_STATUS_ID) {
+    return requestedPublishedAt ? new Date(requestedPublishedAt) : null;
+  }
+
+  if (statusId === PUBLISHED_STATUS_ID) {
+    if (existing && existing.status_id === PUBLISHED_STATUS_ID && existing.published_at) {
+      return existing.published_at;
+    }
+    return new Date();
+  }
+
+  return null;
+}
+
+// Flip scheduled posts whose published_at has passed to published
+export async function publishDuePosts(now: Date = new Date()) {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from("blog_posts")
+    .update({ status_id: PUBLISHED_STATUS_ID })
+    .eq("status_id", SCHEDULED_STATUS_ID)
+    .is("deleted_at", null)
+    .lte("published_at", now.toISOString())
+    .select("id, title, slug, published_at");
+
+  if (error) {
+    throw new DatabaseError(`Failed to publish scheduled posts: ${error.message}`);
+  }
+
+  const published = data || [];
+  console.log(`⏰ Published ${published.length} scheduled post(s)`);
+
+  return {
+    publishedCount: published.length,
+    posts: published,
+    ranAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,85 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DatabaseError } from "./errors";
+
+const MAX_QUERY_LENGTH = 200;
+
+export interface PostSearchOptions {
+  statusId?: number;
+  categoryIds?: number[];
+  tagId?: number;
+  authorId?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface PostSearchHit {
+  id: number;
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+}
+
+// Trim the keyword from the query string; the search_posts RPC parses it with
+// websearch_to_tsquery, so no further escaping is needed on this side
+export function normalizeSearchQuery(keyword: unknown): string {
+  if (typeof keyword !== "string") {
+    return "";
+  }
+  return keyword.trim().slice(0, MAX_QUERY_LENGTH);
+}
+
+// Escape LIKE/ILIKE wildcards so user input only matches literally
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+// Run the ranked full-text search (see examples/migrations/005_post_search.sql).
+// Queries in scripts written without spaces (Thai, CJK) or with no full-text hits fall back
+// to a substring match inside the RPC (examples/migrations/019_post_search_substring_fallback.sql).
+export async function searchPosts(
+  supabase: SupabaseClient,
+  query: string,
+  options: PostSearchOptions
+): Promise<{ hits: PostSearchHit[]; total: number }> {
+  const { data, error } = await supabase.rpc("search_posts", {
+    search_query: query,
+    filter_status_id: options.statusId ?? null,
+    filter_category_ids: options.categoryIds && options.categoryIds.length > 0 ? options.categoryIds : null,
+    result_limit: options.limit,
+    result_offset: options.offset,
+    filter_tag_id: options.tagId ?? null,
+    filter_author_id: options.authorId ?? null,
+  });
+
+  if (error) {
+    throw new DatabaseError(`Failed to search posts: ${error.message}`);
+  }
+
+  const rows = (data || []) as any[];
+
+  return {
+    hits: rows.map((row) => ({
+      id: Number(row.id),
+      rank: row.rank,
+      title_highlight: row.title_highlight,
+      snippet: row.snippet,
+    })),
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+  };
+}
+
+// Put fetched posts back into relevance order and attach the highlighted match
+export function applySearchHits<T extends { id: number }>(posts: T[], hits: PostSearchHit[]) {
+  const postsById = new Map(posts.map((post) => [Number(post.id), post]));
+
+  return hits
+    .filter((hit) => postsById.has(hit.id))
+    .map((hit) => ({
+      ...(postsById.get(hit.id) as T),
+      search: {
+        rank: hit.rank,
+        title_highlight: hit.title_highlight,
+        snippet: hit.snippet,
+      },
+    }));
+}
@@ -0,0 +1,48 @@
+import { getSupabaseAdmin } from "./supabase";
+import { DatabaseError } from "./errors";
+
+// Trashed posts are purged for good after this many days
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10);
+  return Number.isFinite(days) && days > 0 ? days : 30;
+}
+
+// When the automatic purge will remove a post trashed at `deletedAt`
+export function getPurgeDate(deletedAt: string): string {
+  const purgeAt = new Date(deletedAt);
+  purgeAt.setDate(purgeAt.getDate() + getTrashRetentionDays());
+  return purgeAt.toISOString();
+}
+
+// True when the post exists and is not in the trash, whatever its status.
+// Comment and like routes use this so trashed posts stay hidden.
+export async function isPostActive(postId: number | string): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("blog_posts")
+    .select("id")
+    .eq("id", postId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(`Failed to fetch post: ${error.message}`);
+  }
+
+  return !!data;
+}
+
+// Permanently delete posts (with their comments and likes) trashed longer than the retention period
+export async function purgeTrashedPosts() {
+  const supabase = getSupabaseAdmin();
+  const retentionDays = getTrashRetentionDays();
+
+  const { data, error } = await supabase.rpc("purge_trashed_posts", {
+    p_retention_days: retentionDays,
+  });
+
+  if (error) {
+    throw new DatabaseError(`Failed to purge trashed posts: ${error.message}`);
+  }
+
+  return { purgedCount: Number(data || 0), retentionDays };
+}
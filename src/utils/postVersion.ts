@@ -0,0 +1,21 @@
+import { AppError, ValidationError } from "./errors";
+
+// Strong ETag for a post version, e.g. "7"
+export function formatPostETag(version: number): string {
+  return `"${version}"`;
+}
+
+// Read the expected post version from an If-Match header ("7", W/"7" or a bare 7).
+// Updates must say which version they were based on, so a missing header is a 428.
+export function parseIfMatch(header: string | undefined): number {
+  if (!header) {
+    throw new AppError("If-Match header with the post version (ETag) is required", 428);
+  }
+
+  const match = header.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  if (!match) {
+    throw new ValidationError("If-Match must be the ETag returned by GET /posts/admin/:postId");
+  }
+
+  return Number(match[1]);
+}
@@ -0,0 +1,104 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { getSupabaseAdmin } from "./supabase";
+import { AppError, DatabaseError } from "./errors";
+
+export const DEFAULT_PREVIEW_TTL_HOURS = 72;
+export const MAX_PREVIEW_TTL_HOURS = 24 * 30;
+
+interface PreviewTokenPayload {
+  postId: number;
+  tokenId: string;
+  expiresAt: Date;
+}
+
+function getPreviewSecret(): string {
+  const secret = process.env.PREVIEW_TOKEN_SECRET;
+  if (!secret) {
+    throw new AppError("Preview token secret is not configured", 503);
+  }
+  return secret;
+}
+
+function sign(value: string): string {
+  return createHmac("sha256", getPreviewSecret()).update(value).digest("base64url");
+}
+
+// Token format: <postId>.<tokenId>.<expires (unix seconds)>.<HMAC signature>
+function encodeToken(payload: PreviewTokenPayload): string {
+  const body = `${payload.postId}.${payload.tokenId}.${Math.floor(payload.expiresAt.getTime() / 1000)}`;
+  return `${body}.${sign(body)}`;
+}
+
+// Check the signature and expiry without touching the database.
+// Returns null for anything malformed, tampered with or expired.
+export function verifyPreviewToken(token: string): PreviewTokenPayload | null {
+  const parts = token.split(".");
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [postId, tokenId, expires, signature] = parts;
+  const expected = Buffer.from(sign(`${postId}.${tokenId}.${expires}`));
+  const received = Buffer.from(signature);
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return null;
+  }
+
+  const expiresAt = new Date(Number(expires) * 1000);
+  if (!Number.isInteger(Number(postId)) || isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+    return null;
+  }
+
+  return { postId: Number(postId), tokenId, expiresAt };
+}
+
+// Create a preview token for a post; the row is what makes revoking possible
+export async function createPreviewToken(
+  supabase: SupabaseClient,
+  postId: number,
+  createdBy: string,
+  ttlHours: number = DEFAULT_PREVIEW_TTL_HOURS
+) {
+  const payload: PreviewTokenPayload = {
+    postId,
+    tokenId: randomUUID(),
+    expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+  };
+  const token = encodeToken(payload);
+
+  const { data, error } = await supabase
+    .from("post_preview_tokens")
+    .insert({
+      id: payload.tokenId,
+      post_id: postId,
+      expires_at: payload.expiresAt.toISOString(),
+      created_by: createdBy,
+    })
+    .select("id, post_id, expires_at, created_at")
+    .single();
+
+  if (error) {
+    throw new DatabaseError(`Failed to create preview token: ${error.message}`);
+  }
+
+  return { ...data, token };
+}
+
+// A signed token is only honoured while its row exists and has not been revoked
+export async function isPreviewTokenActive(payload: PreviewTokenPayload): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("post_preview_tokens")
+    .select("id")
+    .eq("id", payload.tokenId)
+    .eq("post_id", payload.postId)
+    .is("revoked_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(`Failed to check preview token: ${error.message}`);
+  }
+
+  return !!data;
+}
@@ -0,0 +1,177 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DatabaseError } from "./errors";
+import { searchPosts } from "./postSearch";
+import { TtlCache } from "./ttlCache";
+
+// Score weights: shared category, title/description term overlap, popularity
+const CATEGORY_WEIGHT = 3;
+const TERM_WEIGHT = 5;
+const POPULARITY_WEIGHT = 1;
+
+const CANDIDATES_PER_SOURCE = 50;
+const MAX_QUERY_TERMS = 12;
+
+const RELATED_COLUMNS = `
+  id,
+  title,
+  slug,
+  description,
+  image,
+  category_id,
+  likes,
+  views,
+  published_at,
+  categories(name)
+`;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how", "in", "is", "it",
+  "of", "on", "or", "the", "this", "to", "what", "with", "you", "your",
+]);
+
+const relatedCache = new TtlCache<any[]>(
+  parseInt(process.env.RELATED_POSTS_CACHE_TTL_SECONDS || "600", 10) * 1000
+);
+
+// Split text into lower-cased words; Intl.Segmenter also splits Thai, which has no spaces
+function tokenize(text: string): Set<string> {
+  const words: string[] = [];
+  const Segmenter = (Intl as any).Segmenter;
+
+  if (Segmenter) {
+    for (const segment of new Segmenter(undefined, { granularity: "word" }).segment(text.toLowerCase())) {
+      if (segment.isWordLike) words.push(segment.segment);
+    }
+  } else {
+    words.push(...text.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u));
+  }
+
+  return new Set(words.filter((word) => word.length > 1 && !STOP_WORDS.has(word)));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function popularity(post: any): number {
+  return Math.log10(1 + (post.likes || 0) * 2 + (post.views || 0));
+}
+
+// Collect candidates from the same category, a full-text match on the source terms
+// and the most viewed posts, then rank them by the combined similarity score
+async function findRelatedPosts(supabase: SupabaseClient, source: any, limit: number) {
+  const sourceTerms = tokenize(`${source.title} ${source.description || ""}`);
+  const candidates = new Map<number, any>();
+  const addCandidates = (rows: any[] | null) => {
+    (rows || []).forEach((row) => {
+      if (row.id !== source.id) candidates.set(row.id, row);
+    });
+  };
+
+  const hasCategory = source.category_id !== null && source.category_id !== undefined;
+
+  // Posts without a category have no category neighbours (eq.null would match nothing)
+  const [sameCategory, mostViewed] = await Promise.all([
+    hasCategory
+      ? supabase
+          .from("blog_posts")
+          .select(RELATED_COLUMNS)
+          .eq("status_id", 1)
+          .is("deleted_at", null)
+          .eq("category_id", source.category_id)
+          .neq("id", source.id)
+          .order("likes", { ascending: false })
+          .limit(CANDIDATES_PER_SOURCE)
+      : { data: [], error: null },
+    supabase
+      .from("blog_posts")
+      .select(RELATED_COLUMNS)
+      .eq("status_id", 1)
+      .is("deleted_at", null)
+      .neq("id", source.id)
+      .order("views", { ascending: false })
+      .limit(limit * 2),
+  ]);
+
+  if (sameCategory.error || mostViewed.error) {
+    throw new DatabaseError(`Failed to fetch related posts: ${(sameCategory.error || mostViewed.error)?.message}`);
+  }
+  addCandidates(sameCategory.data);
+  addCandidates(mostViewed.data);
+
+  if (sourceTerms.size > 0) {
+    const query = Array.from(sourceTerms).slice(0, MAX_QUERY_TERMS).join(" or ");
+    const { hits } = await searchPosts(supabase, query, { statusId: 1, limit: CANDIDATES_PER_SOURCE, offset: 0 });
+    const missingIds = hits.map((hit) => hit.id).filter((id) => id !== source.id && !candidates.has(id));
+
+    if (missingIds.length > 0) {
+      const { data, error } = await supabase
+        .from("blog_posts")
+        .select(RELATED_COLUMNS)
+        .eq("status_id", 1)
+        .is("deleted_at", null)
+        .in("id", missingIds);
+
+      if (error) {
+        throw new DatabaseError(`Failed to fetch related posts: ${error.message}`);
+      }
+      addCandidates(data);
+    }
+  }
+
+  const maxPopularity = Math.max(1, ...Array.from(candidates.values()).map(popularity));
+
+  return Array.from(candidates.values())
+    .map((post) => {
+      const sameCategoryScore = hasCategory && post.category_id === source.category_id ? 1 : 0;
+      const termScore = jaccard(sourceTerms, tokenize(`${post.title} ${post.description || ""}`));
+      const popularityScore = popularity(post) / maxPopularity;
+
+      return {
+        ...post,
+        related_score: Number((
+          CATEGORY_WEIGHT * sameCategoryScore +
+          TERM_WEIGHT * termScore +
+          POPULARITY_WEIGHT * popularityScore
+        ).toFixed(4)),
+      };
+    })
+    .sort((a, b) => b.related_score - a.related_score || b.id - a.id)
+    .slice(0, limit);
+}
+
+// Related published posts for a post, cached per post and limit.
+// Returns null when the source post does not exist or is not published.
+export async function getRelatedPosts(supabase: SupabaseClient, postId: number, limit: number) {
+  const cacheKey = `${postId}:${limit}`;
+  const cached = relatedCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const { data: source, error } = await supabase
+    .from("blog_posts")
+    .select("id, title, description, category_id")
+    .eq("id", postId)
+    .eq("status_id", 1)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(`Failed to fetch post: ${error.message}`);
+  }
+  if (!source) {
+    return null;
+  }
+
+  const related = await findRelatedPosts(supabase, source, limit);
+  relatedCache.set(cacheKey, related);
+  return related;
+}
@@ -0,0 +1,141 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DatabaseError } from "./errors";
+
+// Post fields copied into every revision and compared by the diff endpoint
+export const REVISION_FIELDS = [
+  "title",
+  "slug",
+  "image",
+  "category_id",
+  "description",
+  "content",
+  "status_id",
+  "published_at",
+] as const;
+
+type RevisionField = typeof REVISION_FIELDS[number];
+
+// Above this many line comparisons the content diff falls back to a single replace block
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface FieldChange {
+  field: RevisionField;
+  from: any;
+  to: any;
+}
+
+export interface LineDiffChunk {
+  type: "equal" | "insert" | "delete";
+  lines: string[];
+}
+
+// Newest revision of a post. Revisions are written by the blog_posts trigger
+// (migration 018) in the same transaction as the post, so they are never read-then-inserted here.
+export async function getLatestRevision(supabase: SupabaseClient, postId: string | number) {
+  const { data, error } = await supabase
+    .from("post_revisions")
+    .select("*")
+    .eq("post_id", postId)
+    .order("revision_number", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(`Failed to read post revisions: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Compare two revisions field by field, with a line-level diff for content
+export function diffRevisions(from: Record<string, any>, to: Record<string, any>) {
+  const fields: FieldChange[] = [];
+
+  REVISION_FIELDS.forEach((field) => {
+    if (field === "content") return;
+    if (String(from[field] ?? "") !== String(to[field] ?? "")) {
+      fields.push({ field, from: from[field] ?? null, to: to[field] ?? null });
+    }
+  });
+
+  const content = diffLines(from.content || "", to.content || "");
+
+  return {
+    fields,
+    content,
+    contentChanged: content.some((chunk) => chunk.type !== "equal"),
+  };
+}
+
+// Line diff based on the longest common subsequence of the two texts
+export function diffLines(fromText: string, toText: string): LineDiffChunk[] {
+  const a = fromText.split(/\r?\n/);
+  const b = toText.split(/\r?\n/);
+  const chunks: LineDiffChunk[] = [];
+
+  const push = (type: LineDiffChunk["type"], line: string) => {
+    const last = chunks[chunks.length - 1];
+    if (last && last.type === type) {
+      last.lines.push(line);
+    } else {
+      chunks.push({ type, lines: [line] });
+    }
+  };
+
+  // Trim the common prefix and suffix so the table only covers the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  a.slice(0, start).forEach((line) => push("equal", line));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length;
+  const cols = midB.length;
+
+  if ((rows + 1) * (cols + 1) > MAX_DIFF_CELLS) {
+    midA.forEach((line) => push("delete", line));
+    midB.forEach((line) => push("insert", line));
+  } else {
+    // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+    const width = cols + 1;
+    const lcs = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (midA[i] === midB[j]) {
+        push("equal", midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        push("delete", midA[i]);
+        i++;
+      } else {
+        push("insert", midB[j]);
+        j++;
+      }
+    }
+    midA.slice(i).forEach((line) => push("delete", line));
+    midB.slice(j).forEach((line) => push("insert", line));
+  }
+
+  a.slice(endA).forEach((line) => push("equal", line));
+
+  return chunks;
+}
@@ -0,0 +1,100 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DatabaseError, ValidationError } from "./errors";
+
+export const MAX_SERIES_POSTS = 200;
+
+export interface SeriesPart {
+  position: number;
+  id: number;
+  title: string;
+  slug: string;
+  description: string | null;
+  image: string | null;
+  status_id: number;
+  published_at: string | null;
+}
+
+// Read the ordered post ids for a series from the request body
+export function parseSeriesPostIds(value: unknown): number[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError("postIds must be an array of post IDs");
+  }
+  if (value.length > MAX_SERIES_POSTS) {
+    throw new ValidationError(`A series can have at most ${MAX_SERIES_POSTS} posts`);
+  }
+
+  const ids = value.map(Number);
+  if (ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+    throw new ValidationError("Invalid post ID in postIds");
+  }
+  if (new Set(ids).size !== ids.length) {
+    throw new ValidationError("A post can only appear once in a series");
+  }
+
+  return ids;
+}
+
+// Parts of a series in reading order, skipping trashed posts. Public callers only get
+// published parts, and positions are renumbered so readers never see gaps.
+export async function fetchSeriesParts(
+  supabase: SupabaseClient,
+  seriesId: number,
+  includeUnpublished = false
+): Promise<SeriesPart[]> {
+  let query = supabase
+    .from("series_posts")
+    .select("position, blog_posts!inner(id, title, slug, description, image, status_id, published_at)")
+    .eq("series_id", seriesId)
+    .is("blog_posts.deleted_at", null)
+    .order("position", { ascending: true });
+
+  if (!includeUnpublished) {
+    query = query.eq("blog_posts.status_id", 1);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new DatabaseError(`Failed to fetch series posts: ${error.message}`);
+  }
+
+  return (data || []).map((row: any, index: number) => ({
+    position: index + 1,
+    ...row.blog_posts,
+  }));
+}
+
+// Series context for a post page: where the post sits and its neighbouring parts.
+// Returns null when the post is not part of a series.
+export async function getSeriesContext(supabase: SupabaseClient, postId: number) {
+  const { data: membership, error } = await supabase
+    .from("series_posts")
+    .select("series_id, series(id, title, slug)")
+    .eq("post_id", postId)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(`Failed to fetch series: ${error.message}`);
+  }
+  if (!membership) {
+    return null;
+  }
+
+  const parts = await fetchSeriesParts(supabase, membership.series_id);
+  const index = parts.findIndex((part) => part.id === postId);
+  if (index === -1) {
+    return null;
+  }
+
+  const summary = (part?: SeriesPart) => (part ? { id: part.id, title: part.title, slug: part.slug } : null);
+  const series = membership.series as any;
+
+  return {
+    id: series.id,
+    title: series.title,
+    slug: series.slug,
+    position: index + 1,
+    total: parts.length,
+    previous: summary(parts[index - 1]),
+    next: summary(parts[index + 1]),
+  };
+}
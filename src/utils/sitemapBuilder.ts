@@ -0,0 +1,50 @@
+import { escapeXml } from "./feedBuilder";
+
+// Limit from the sitemap protocol; above it the sitemap is split behind an index
+export const MAX_SITEMAP_URLS = 50000;
+
+export interface SitemapUrl {
+  loc: string;
+  lastmod?: string | null;
+}
+
+export function buildUrlset(urls: SitemapUrl[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map((url) => [
+      "  <url>",
+      `    <loc>${escapeXml(url.loc)}</loc>`,
+      url.lastmod ? `    <lastmod>${new Date(url.lastmod).toISOString()}</lastmod>` : "",
+      "  </url>",
+    ].filter(Boolean).join("\n")),
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+export function buildSitemapIndex(sitemaps: SitemapUrl[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.map((sitemap) => [
+      "  <sitemap>",
+      `    <loc>${escapeXml(sitemap.loc)}</loc>`,
+      sitemap.lastmod ? `    <lastmod>${new Date(sitemap.lastmod).toISOString()}</lastmod>` : "",
+      "  </sitemap>",
+    ].filter(Boolean).join("\n")),
+    "</sitemapindex>",
+    "",
+  ].join("\n");
+}
+
+export function buildRobotsTxt(sitemapUrl: string, disallow: string[]): string {
+  return [
+    "User-agent: *",
+    "Allow: /",
+    ...disallow.map((path) => `Disallow: ${path}`),
+    "",
+    `Sitemap: ${sitemapUrl}`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,152 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DatabaseError } from "./errors";
+import { getSupabaseAdmin } from "./supabase";
+
+const MAX_SLUG_LENGTH = 120;
+
+// Build a URL slug from a title. Unicode letters and combining marks are kept,
+// so Thai titles produce readable slugs instead of an empty string.
+export function generateSlug(text: string, fallback: string = "post"): string {
+  const slug = text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, "") // Remove punctuation and symbols
+    .trim()
+    .replace(/[\s_]+/g, "-") // Replace spaces and underscores with hyphens
+    .replace(/-+/g, "-") // Replace multiple hyphens with single hyphen
+    .replace(/^-|-$/g, "");
+
+  // Slice by code point so multi-byte characters are never cut in half
+  const truncated = Array.from(slug).slice(0, MAX_SLUG_LENGTH).join("").replace(/-$/, "");
+  return truncated || fallback;
+}
+
+// Normalize a slug received from a URL so it can be compared with stored slugs
+export function normalizeSlug(slug: string): string {
+  return slug.normalize("NFC").trim().toLowerCase();
+}
+
+// Collect slugs that start with the given base and belong to other posts,
+// either as a live slug or as a redirect from an old one. Runs as the service role:
+// an editor's client cannot see other authors' drafts, scheduled or trashed posts,
+// which still hold their slugs.
+async function getTakenSlugs(base: string, excludePostId?: number | string): Promise<Set<string>> {
+  const supabase = getSupabaseAdmin();
+  const [postsResult, redirectsResult] = await Promise.all([
+    supabase.from("blog_posts").select("id, slug").like("slug", `${base}%`),
+    supabase.from("post_slug_redirects").select("post_id, slug").like("slug", `${base}%`),
+  ]);
+
+  if (postsResult.error) {
+    throw new DatabaseError(`Failed to check post slugs: ${postsResult.error.message}`);
+  }
+  if (redirectsResult.error) {
+    throw new DatabaseError(`Failed to check slug redirects: ${redirectsResult.error.message}`);
+  }
+
+  const isOtherPost = (postId: number | string) =>
+    excludePostId === undefined || String(postId) !== String(excludePostId);
+
+  const taken = new Set<string>();
+  (postsResult.data || []).forEach((row: any) => {
+    if (isOtherPost(row.id)) taken.add(row.slug);
+  });
+  (redirectsResult.data || []).forEach((row: any) => {
+    if (isOtherPost(row.post_id)) taken.add(row.slug);
+  });
+
+  return taken;
+}
+
+// Generate a slug that no other post uses, adding -2, -3, ... on collisions
+export async function generateUniqueSlug(title: string, excludePostId?: number | string): Promise<string> {
+  const base = generateSlug(title);
+  const taken = await getTakenSlugs(base, excludePostId);
+
+  if (!taken.has(base)) {
+    return base;
+  }
+
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) {
+    suffix++;
+  }
+  return `${base}-${suffix}`;
+}
+
+// Keep the current slug unless the title actually changed, so custom and imported slugs
+// survive ordinary saves. A changed title keeps the slug while it still maps to it
+// (including a -N suffix); otherwise a new unique slug is allocated for the post.
+export async function resolveSlugForUpdate(
+  postId: number | string,
+  title: string,
+  current: { slug?: string | null; title?: string | null }
+): Promise<string> {
+  const currentSlug = current.slug;
+  if (currentSlug) {
+    if ((current.title || "").trim() === title.trim()) {
+      return currentSlug;
+    }
+
+    const base = generateSlug(title);
+    const suffix = currentSlug.startsWith(`${base}-`) ? currentSlug.slice(base.length + 1) : "";
+    if (currentSlug === base || /^\d+$/.test(suffix)) {
+      return currentSlug;
+    }
+  }
+  return generateUniqueSlug(title, postId);
+}
+
+// Two saves can pick the same free slug at once; the unique index rejects the second one.
+// Checked by constraint name because the RLS helper rethrows errors with the message only.
+export function isSlugConflict(error: unknown, constraint: string = "blog_posts_slug_key"): boolean {
+  return error instanceof Object && String((error as any).message).includes(constraint);
+}
+
+// Remember an old slug so links to it keep working after the post is renamed
+export async function recordSlugRedirect(
+  supabase: SupabaseClient,
+  postId: number | string,
+  oldSlug: string,
+  newSlug: string
+): Promise<void> {
+  // The new slug is live again, so it must not redirect anywhere
+  const { error: deleteError } = await supabase
+    .from("post_slug_redirects")
+    .delete()
+    .eq("slug", newSlug);
+
+  if (deleteError) {
+    throw new DatabaseError(`Failed to update slug redirects: ${deleteError.message}`);
+  }
+
+  if (!oldSlug || oldSlug === newSlug) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from("post_slug_redirects")
+    .upsert({ slug: oldSlug, post_id: Number(postId) }, { onConflict: "slug" });
+
+  if (error) {
+    throw new DatabaseError(`Failed to record slug redirect: ${error.message}`);
+  }
+}
+
+// Look up the current slug of a published post that used to live at the given slug
+export async function findRedirectSlug(supabase: SupabaseClient, oldSlug: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("post_slug_redirects")
+    .select("post_id, blog_posts!inner(slug, status_id)")
+    .eq("slug", oldSlug)
+    .eq("blog_posts.status_id", 1)
+    .is("blog_posts.deleted_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(`Failed to look up slug redirect: ${error.message}`);
+  }
+
+  const post = (data as any)?.blog_posts;
+  return post?.slug || null;
+}
@@ -0,0 +1,187 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseAdmin } from "./supabase";
+import { AppError, DatabaseError, ValidationError } from "./errors";
+import { siteConfig, storageConfig } from "./config";
+
+const LIST_PAGE_SIZE = 1000;
+
+export interface StoredFile {
+  path: string;
+  size: number | null;
+  createdAt: string | null;
+}
+
+// Operations the upload, media and cleanup code needs from a file store.
+// Paths are relative to the bucket, e.g. "public/post-<uuid>-photo.jpg".
+export interface StorageDriver {
+  put(bucket: string, filePath: string, body: Buffer, contentType: string): Promise<void>;
+  delete(bucket: string, filePaths: string[]): Promise<void>;
+  publicUrl(bucket: string, filePath: string): string;
+  // Path of publicUrl up to the file path, without the host, e.g. "/uploads/post-images/".
+  // Used to recognise stored files in saved URLs even after the API or project host changes.
+  publicPathPrefix(bucket: string): string;
+  // Every file in the bucket (or under prefix), folders included recursively
+  list(bucket: string, prefix?: string): Promise<StoredFile[]>;
+}
+
+// Supabase Storage buckets. Uses the given client so storage policies apply
+// to the signed-in user; cleanup jobs pass the admin client.
+class SupabaseStorageDriver implements StorageDriver {
+  constructor(private supabase: SupabaseClient) {}
+
+  async put(bucket: string, filePath: string, body: Buffer, contentType: string) {
+    const { error } = await this.supabase.storage
+      .from(bucket)
+      .upload(filePath, body, {
+        contentType,
+        upsert: false
+      });
+
+    if (error) {
+      throw new DatabaseError(`Failed to upload file: ${error.message}`);
+    }
+  }
+
+  async delete(bucket: string, filePaths: string[]) {
+    for (let i = 0; i < filePaths.length; i += LIST_PAGE_SIZE) {
+      const { error } = await this.supabase.storage.from(bucket).remove(filePaths.slice(i, i + LIST_PAGE_SIZE));
+      if (error) {
+        throw new DatabaseError(`Failed to delete files: ${error.message}`);
+      }
+    }
+  }
+
+  publicUrl(bucket: string, filePath: string) {
+    return this.supabase.storage.from(bucket).getPublicUrl(filePath).data.publicUrl;
+  }
+
+  publicPathPrefix(bucket: string) {
+    return new URL(this.publicUrl(bucket, "")).pathname.replace(/\/?$/, "/"); // /storage/v1/object/public/<bucket>/
+  }
+
+  async list(bucket: string, prefix = ""): Promise<StoredFile[]> {
+    const files: StoredFile[] = [];
+
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await this.supabase.storage
+        .from(bucket)
+        .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: "name", order: "asc" } });
+
+      if (error) {
+        throw new DatabaseError(`Failed to list ${bucket}: ${error.message}`);
+      }
+
+      for (const item of data || []) {
+        const itemPath = prefix ? `${prefix}/${item.name}` : item.name;
+        if (item.id === null) {
+          files.push(...(await this.list(bucket, itemPath))); // Supabase lists one folder level at a time
+        } else {
+          files.push({
+            path: itemPath,
+            size: item.metadata?.size ?? null,
+            createdAt: item.created_at || item.updated_at || null,
+          });
+        }
+      }
+
+      if (!data || data.length < LIST_PAGE_SIZE) {
+        return files;
+      }
+    }
+  }
+}
+
+// Files on local disk under <localDir>/<bucket>/<path>, served by the static route in app.ts
+export class LocalStorageDriver implements StorageDriver {
+  private root = path.resolve(storageConfig.localDir);
+
+  // Absolute path of a file, refusing anything that would escape the bucket folder
+  private resolve(bucket: string, filePath = "") {
+    const bucketDir = path.join(this.root, bucket);
+    const fullPath = path.resolve(bucketDir, filePath);
+    if (!/^[a-z0-9-]+$/.test(bucket) || (fullPath !== bucketDir && !fullPath.startsWith(bucketDir + path.sep))) {
+      throw new ValidationError("Invalid storage path");
+    }
+    return fullPath;
+  }
+
+  async put(bucket: string, filePath: string, body: Buffer) {
+    const fullPath = this.resolve(bucket, filePath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+    try {
+      await fs.writeFile(fullPath, body, { flag: "wx" }); // Never overwrite, like upsert: false
+    } catch (error: any) {
+      throw new DatabaseError(`Failed to upload file: ${error.code === "EEXIST" ? "file already exists" : error.message}`);
+    }
+  }
+
+  async delete(bucket: string, filePaths: string[]) {
+    for (const filePath of filePaths) {
+      await fs.rm(this.resolve(bucket, filePath), { force: true });
+    }
+  }
+
+  publicUrl(bucket: string, filePath: string) {
+    const urlPath = [bucket, ...filePath.split("/")].map(encodeURIComponent).join("/");
+    return `${siteConfig.apiUrl}${storageConfig.localPublicPath}/${urlPath}`;
+  }
+
+  publicPathPrefix(bucket: string) {
+    return `${storageConfig.localPublicPath}/${encodeURIComponent(bucket)}/`;
+  }
+
+  async list(bucket: string, prefix = ""): Promise<StoredFile[]> {
+    const dir = this.resolve(bucket, prefix);
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return []; // Nothing uploaded to this bucket yet
+      }
+      throw error;
+    }
+
+    const files: StoredFile[] = [];
+    for (const entry of entries) {
+      const itemPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...(await this.list(bucket, itemPath)));
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(path.join(dir, entry.name));
+        // Not every filesystem records a birth time
+        const createdAt = stats.birthtimeMs > 0 ? stats.birthtime : stats.mtime;
+        files.push({ path: itemPath, size: stats.size, createdAt: createdAt.toISOString() });
+      }
+    }
+    return files;
+  }
+}
+
+// Host-independent part of a file's public URL, e.g. "/uploads/post-images/public/a.jpg".
+// Saved URLs are matched on this, so they still count after the API or project host changes.
+export function getPublicPath(storage: StorageDriver, bucket: string, filePath: string): string {
+  const url = storage.publicUrl(bucket, filePath);
+  const start = url.indexOf(storage.publicPathPrefix(bucket));
+  return start >= 0 ? url.slice(start) : url;
+}
+
+// Storage driver picked by STORAGE_DRIVER. The Supabase driver acts as the given client
+// (the service role when none is given); the local driver ignores it.
+export function getStorage(supabase?: SupabaseClient): StorageDriver {
+  switch (storageConfig.driver) {
+    case "supabase":
+      return new SupabaseStorageDriver(supabase || getSupabaseAdmin());
+    case "local":
+      // Stored URLs have to be absolute: they are saved in posts and read by the frontend on another host
+      if (!siteConfig.apiUrl) {
+        throw new AppError('API_URL must be set when STORAGE_DRIVER is "local"', 500);
+      }
+      return new LocalStorageDriver();
+    default:
+      throw new AppError(`Unknown STORAGE_DRIVER "${storageConfig.driver}", use "supabase" or "local"`, 500);
+  }
+}
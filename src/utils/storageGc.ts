@@ -0,0 +1,140 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseAdmin } from "./supabase";
+import { DatabaseError } from "./errors";
+import { uploadConfig } from "./config";
+import { getStorage, StorageDriver } from "./storage";
+import { MEDIA_REFERENCE_SOURCES } from "./mediaLibrary";
+
+const PAGE_SIZE = 1000;
+
+export interface OrphanFile {
+  bucket: string;
+  path: string;
+  size: number | null;
+  createdAt: string | null;
+  deletable: boolean; // Older than the grace period
+}
+
+// Unreferenced files are only deleted once they are older than this many days,
+// so images uploaded for a post that is still being written survive
+export function getOrphanGraceDays(): number {
+  const days = parseInt(process.env.ORPHAN_FILE_GRACE_DAYS || "7", 10);
+  return Number.isFinite(days) && days > 0 ? days : 7;
+}
+
+// Every stored file referenced anywhere, as "<bucket>/<path>". URLs are recognised
+// by the storage driver's public path for each bucket, whatever host they were saved with.
+async function collectReferencedPaths(supabase: SupabaseClient, storage: StorageDriver, buckets: string[]): Promise<Set<string>> {
+  const referenced = new Set<string>();
+  const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const urlPatterns = buckets.map((bucket) => ({
+    bucket,
+    pattern: new RegExp(`${escapeRegExp(storage.publicPathPrefix(bucket))}([^\\s"'()<>?#]+)`, "g"),
+  }));
+
+  for (const { table, columns } of MEDIA_REFERENCE_SOURCES) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(columns.join(", "))
+        .order("id", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new DatabaseError(`Failed to read ${table} references: ${error.message}`);
+      }
+
+      for (const row of (data || []) as any[]) {
+        for (const column of columns) {
+          const value = String(row[column] || "");
+          for (const { bucket, pattern } of urlPatterns) {
+            for (const match of value.matchAll(pattern)) {
+              try {
+                referenced.add(`${bucket}/${decodeURIComponent(match[1])}`);
+              } catch {
+                referenced.add(`${bucket}/${match[1]}`);
+              }
+            }
+          }
+        }
+      }
+
+      if (!data || data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+  }
+
+  return referenced;
+}
+
+// An original and its resized WebP variants (see utils/imagePipeline.ts) share one key,
+// so a post that only links a variant still keeps the whole set
+const getFileGroupKey = (path: string) =>
+  path.replace(/-(thumbnail|medium|large)\.webp$/, "").replace(/\.[^./]+$/, "");
+
+// Compare bucket contents against references in posts, revisions, profiles and comments.
+// Orphans older than the grace period are deleted unless dryRun is set.
+export async function collectStorageGarbage(options: { dryRun?: boolean } = {}) {
+  const supabase = getSupabaseAdmin();
+  const storage = getStorage(supabase);
+  const buckets = Object.keys(uploadConfig.maxFileSizeMb);
+  const dryRun = options.dryRun ?? false;
+  const graceDays = getOrphanGraceDays();
+  const cutoff = Date.now() - graceDays * 24 * 60 * 60 * 1000;
+
+  // References are read in full before anything is listed or deleted; any failure aborts the run
+  const referenced = await collectReferencedPaths(supabase, storage, buckets);
+
+  const orphans: OrphanFile[] = [];
+  let scannedCount = 0;
+  let deletedCount = 0;
+
+  for (const bucket of buckets) {
+    const files = await storage.list(bucket);
+    scannedCount += files.length;
+
+    const referencedGroups = new Set(
+      files.filter((file) => referenced.has(`${bucket}/${file.path}`)).map((file) => getFileGroupKey(file.path))
+    );
+
+    const bucketOrphans: OrphanFile[] = files
+      .filter((file) => !referencedGroups.has(getFileGroupKey(file.path)))
+      .map((file) => ({
+        bucket,
+        ...file,
+        deletable: !!file.createdAt && new Date(file.createdAt).getTime() < cutoff,
+      }));
+
+    orphans.push(...bucketOrphans);
+
+    const deletablePaths = bucketOrphans.filter((file) => file.deletable).map((file) => file.path);
+    if (dryRun || deletablePaths.length === 0) {
+      continue;
+    }
+
+    for (let i = 0; i < deletablePaths.length; i += PAGE_SIZE) {
+      const paths = deletablePaths.slice(i, i + PAGE_SIZE);
+      await storage.delete(bucket, paths);
+
+      // Drop the media library rows of removed originals
+      const { error: mediaError } = await supabase.from("media").delete().eq("bucket", bucket).in("path", paths);
+      if (mediaError) {
+        throw new DatabaseError(`Failed to delete media records: ${mediaError.message}`);
+      }
+
+      deletedCount += paths.length;
+    }
+  }
+
+  return {
+    dryRun,
+    graceDays,
+    scannedCount,
+    referencedCount: scannedCount - orphans.length,
+    orphanCount: orphans.length,
+    deletedCount,
+    orphans,
+    ranAt: new Date().toISOString(),
+  };
+}
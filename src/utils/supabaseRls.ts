@@ -36,6 +36,8 @@ export class SupabaseRlsHelper {
       Object.entries(filters).forEach(([key, value]) => {
         if (Array.isArray(value)) {
           query = query.in(key, value);
+        } else if (value === null) {
+          query = query.is(key, null);
         } else if (typeof value === 'string' && value.includes('%')) {
           query = query.ilike(key, value);
         } else {
@@ -0,0 +1,120 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DatabaseError, ValidationError } from "./errors";
+import { generateSlug } from "./slugHelper";
+
+export const MAX_TAGS_PER_POST = 20;
+export const MAX_TAG_NAME_LENGTH = 50;
+
+// Tags requested for a post: ids of existing tags plus names still to be created.
+// Nothing is written until setPostTags runs after the post itself was saved.
+export interface PostTags {
+  tagIds: number[];
+  newTags: { name: string; slug: string }[];
+}
+
+// Slug identifying a tag name. Names made only of symbols or emoji have no slug
+// and are rejected rather than all becoming the same placeholder tag.
+export function getTagSlug(name: string): string {
+  const slug = generateSlug(name, "");
+  if (!slug) {
+    throw new ValidationError(`Tag "${name}" must contain at least one letter or number`);
+  }
+  return slug;
+}
+
+// Spelling differences that still mean the same tag ("Node JS" and "node-js"),
+// unlike dropped symbols ("C++" and "C")
+const canonicalTagName = (name: string) => name.normalize("NFC").toLowerCase().trim().replace(/[\s_-]+/g, "-");
+
+// Check the `tags` field of a post request (tag names or tag ids) without writing anything.
+// Unknown ids and names that would silently merge with a different tag are rejected.
+export async function resolvePostTags(supabase: SupabaseClient, tags: (string | number)[]): Promise<PostTags> {
+  const ids = new Set<number>();
+  const names = new Map<string, string>(); // slug -> name as given
+
+  tags.forEach((tag) => {
+    if (typeof tag === "number") {
+      ids.add(tag);
+      return;
+    }
+
+    const name = tag.trim();
+    if (!name) return;
+
+    const slug = getTagSlug(name);
+    const other = names.get(slug);
+    if (other !== undefined && canonicalTagName(other) !== canonicalTagName(name)) {
+      throw new ValidationError(`Tags "${other}" and "${name}" would be the same tag`);
+    }
+    if (other === undefined) names.set(slug, name);
+  });
+
+  if (ids.size > 0) {
+    const { data, error } = await supabase.from("tags").select("id").in("id", Array.from(ids));
+    if (error) {
+      throw new DatabaseError(`Failed to fetch tags: ${error.message}`);
+    }
+    if ((data || []).length !== ids.size) {
+      throw new ValidationError("One or more tag IDs do not exist");
+    }
+  }
+
+  if (names.size > 0) {
+    const { data: existing, error } = await supabase
+      .from("tags")
+      .select("id, name, slug")
+      .in("slug", Array.from(names.keys()));
+
+    if (error) {
+      throw new DatabaseError(`Failed to fetch tags: ${error.message}`);
+    }
+
+    (existing || []).forEach((tag: any) => {
+      const name = names.get(tag.slug) as string;
+      if (canonicalTagName(tag.name) !== canonicalTagName(name)) {
+        throw new ValidationError(`Tag "${name}" would be the same tag as the existing tag "${tag.name}"`);
+      }
+      ids.add(tag.id);
+      names.delete(tag.slug);
+    });
+  }
+
+  return {
+    tagIds: Array.from(ids),
+    newTags: Array.from(names.entries()).map(([slug, name]) => ({ name, slug })),
+  };
+}
+
+// Create the new tags and replace the tags of a post in one transaction
+// (see examples/migrations/023_set_post_tags_new_tags.sql)
+export async function setPostTags(supabase: SupabaseClient, postId: number | string, tags: PostTags) {
+  const { error } = await supabase.rpc("set_post_tags", {
+    p_post_id: Number(postId),
+    p_tag_ids: tags.tagIds,
+    p_new_tags: tags.newTags,
+  });
+
+  if (error) {
+    throw new DatabaseError(`Failed to update post tags: ${error.message}`);
+  }
+}
+
+// Find a tag by slug or by name (a name slugifies to its tag's slug)
+export async function findTagBySlug(supabase: SupabaseClient, tag: string) {
+  const slug = generateSlug(tag, "");
+  if (!slug) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tags")
+    .select("id, name, slug")
+    .eq("slug", slug)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(`Failed to fetch tag: ${error.message}`);
+  }
+
+  return data;
+}
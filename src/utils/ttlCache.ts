@@ -0,0 +1,39 @@
+// Small in-memory cache with per-entry expiry.
+// On serverless platforms each instance has its own copy, so it only saves repeated work
+// within a warm instance; pair it with Cache-Control headers for CDN caching.
+export class TtlCache<T> {
+  private entries = new Map<string, { value: T; expiresAt: number }>();
+
+  constructor(private ttlMs: number, private maxEntries: number = 500) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: T): void {
+    // Drop the oldest entry once full (Map keeps insertion order)
+    if (!this.entries.has(key) && this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey);
+      }
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
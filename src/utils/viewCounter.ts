@@ -0,0 +1,65 @@
+import { Request } from "express";
+import { createHash } from "crypto";
+import { getSupabaseAdmin } from "./supabase";
+import { DatabaseError } from "./errors";
+
+// Repeat views from the same visitor inside this window count once
+export function getViewDedupWindowMinutes(): number {
+  const minutes = parseInt(process.env.VIEW_DEDUP_WINDOW_MINUTES || "30", 10);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : 30;
+}
+
+// Identify the viewer: the user id when logged in, otherwise a hash of IP + user agent.
+// Nothing else the client sends (visitor ids, forwarded headers) is part of the key,
+// since changing it on every request would count every request as a new visitor.
+// req.ip honours the "trust proxy" setting in app.ts. Only the hash is stored, never the raw IP.
+export function getViewerKey(req: Request): string {
+  const user = (req as any).user;
+  if (user?.id) {
+    return `user:${user.id}`;
+  }
+
+  const salt = process.env.VIEW_FINGERPRINT_SALT || "";
+  const source = `client:${req.ip}|${req.get("User-Agent") || ""}`;
+
+  return `anon:${createHash("sha256").update(salt + source).digest("hex")}`;
+}
+
+// Count a view atomically through the record_post_view RPC
+// (see examples/migrations/008_post_views.sql). The RPC trusts the viewer key and window
+// it is given, so only the service role may call it (021_post_views_service_role.sql).
+export async function recordPostView(postId: number, viewerKey: string) {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase.rpc("record_post_view", {
+    p_post_id: postId,
+    p_viewer_key: viewerKey,
+    p_window_minutes: getViewDedupWindowMinutes(),
+  });
+
+  if (error) {
+    throw new DatabaseError(`Failed to record view: ${error.message}`);
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  return {
+    found: Boolean(row),
+    counted: Boolean(row?.counted),
+    views: Number(row?.views || 0),
+  };
+}
+
+// Remove visitor rows that are past the dedup window and no longer affect counting
+export async function pruneViewVisitors() {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase.rpc("prune_post_view_visitors", {
+    p_window_minutes: getViewDedupWindowMinutes(),
+  });
+
+  if (error) {
+    throw new DatabaseError(`Failed to prune view visitors: ${error.message}`);
+  }
+
+  return { prunedCount: Number(data || 0) };
+}